@@ -0,0 +1,45 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { GET } from './route';
+
+// 10:00 in Bangkok, fourteen hours before midnight, with 3279 flowers planted
+const NOW = new Date('2026-10-19T10:00:00+07:00');
+
+function getDay(day: string) {
+    return GET(new Request(`http://localhost/api/flowers/${day}`), {
+        params: Promise.resolve({ day }),
+    });
+}
+
+describe('GET /api/flowers/[day]', () => {
+    beforeEach(() => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(NOW);
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('returns a planted day with a cache until midnight', async () => {
+        const response = await getDay('3279');
+        expect(response.status).toBe(200);
+        expect(await response.json()).toMatchObject({
+            dayNumber: 3279,
+            date: '2026-10-18',
+        });
+        expect(response.headers.get('Cache-Control')).toBe(
+            'public, max-age=50400, s-maxage=50400',
+        );
+    });
+
+    it.each(['0', 'abc', '1.5', '3280', '99999'])(
+        'returns 404 for day %s',
+        async (day) => {
+            const response = await getDay(day);
+            expect(response.status).toBe(404);
+            expect(await response.json()).toEqual({
+                error: `Day ${day} has not been planted yet`,
+            });
+        },
+    );
+});
@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server';
+import { getConfiguredGenerator } from '@/lib/currentGarden';
+import { getDaysSince } from '@/lib/dates';
+import {
+    ApiErrorResponse,
+    FlowerResponse,
+    getDayCacheHeaders,
+} from '@/lib/gardenApi';
+import { GARDEN_PROFILE } from '@/lib/gardenConfig';
+
+/**
+ * GET /api/flowers/[day]
+ *
+ * The flower planted on a 1-based day number, once that day has arrived in
+ * the garden's timezone.
+ */
+export async function GET(
+    _request: Request,
+    { params }: { params: Promise<{ day: string }> },
+) {
+    const now = new Date();
+    const { day: dayParam } = await params;
+    const day = Number(dayParam);
+    const count = getDaysSince(
+        GARDEN_PROFILE.startDate,
+        GARDEN_PROFILE.timezone,
+        now,
+    );
+    // Checked before generating, so far-future days cost nothing
+    const flower =
+        Number.isInteger(day) && day <= count
+            ? getConfiguredGenerator().getFlower(day)
+            : undefined;
+    if (!flower) {
+        return NextResponse.json<ApiErrorResponse>(
+            { error: `Day ${dayParam} has not been planted yet` },
+            { status: 404 },
+        );
+    }
+    return NextResponse.json<FlowerResponse>(flower, {
+        headers: getDayCacheHeaders(now, GARDEN_PROFILE.timezone),
+    });
+}
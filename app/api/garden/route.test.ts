@@ -0,0 +1,73 @@
+import { NextRequest } from 'next/server';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { GardenPageResponse } from '@/lib/gardenApi';
+import { GET } from './route';
+
+// 10:00 in Bangkok, fourteen hours before midnight, with 3279 flowers planted
+const NOW = new Date('2026-10-19T10:00:00+07:00');
+
+async function getPage(query: string) {
+    const response = await GET(
+        new NextRequest(`http://localhost/api/garden${query}`),
+    );
+    return {
+        response,
+        page: (await response.json()) as GardenPageResponse,
+    };
+}
+
+describe('GET /api/garden', () => {
+    beforeEach(() => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(NOW);
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('returns the first 500 flowers by default', async () => {
+        const { response, page } = await getPage('');
+        expect(page).toMatchObject({
+            total: 3279,
+            upTo: 3279,
+            from: 1,
+            nextFrom: 501,
+        });
+        expect(page.flowers).toHaveLength(500);
+        expect(page.flowers[0].dayNumber).toBe(1);
+        expect(response.headers.get('Cache-Control')).toBe(
+            'public, max-age=50400, s-maxage=50400',
+        );
+    });
+
+    it('pages through the garden with from and limit', async () => {
+        const { page } = await getPage('?from=3001&limit=200');
+        expect(page).toMatchObject({ from: 3001, nextFrom: 3201 });
+        expect(page.flowers.map((f) => f.dayNumber)).toEqual(
+            Array.from({ length: 200 }, (_, i) => 3001 + i),
+        );
+
+        const { page: last } = await getPage(
+            `?from=${page.nextFrom}&limit=200`,
+        );
+        expect(last.flowers).toHaveLength(79);
+        expect(last.nextFrom).toBeNull();
+    });
+
+    it('stops at upTo', async () => {
+        const { page } = await getPage('?upTo=100&from=51&limit=1000');
+        expect(page).toMatchObject({ total: 3279, upTo: 100, nextFrom: null });
+        expect(page.flowers).toHaveLength(50);
+    });
+
+    it('clamps limit and ignores invalid values', async () => {
+        const { page: capped } = await getPage('?limit=5000');
+        expect(capped.flowers).toHaveLength(1000);
+        expect(capped.nextFrom).toBe(1001);
+
+        const { page: fallback } = await getPage('?from=abc&limit=0.5');
+        expect(fallback.from).toBe(1);
+        expect(fallback.flowers).toHaveLength(500);
+    });
+});
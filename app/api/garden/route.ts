@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentGarden } from '@/lib/currentGarden';
+import {
+    GardenPageResponse,
+    getDayCacheHeaders,
+    parseDayParam,
+} from '@/lib/gardenApi';
+import { GARDEN_PROFILE } from '@/lib/gardenConfig';
+
+const DEFAULT_LIMIT = 500;
+const MAX_LIMIT = 1000;
+
+/**
+ * GET /api/garden?upTo=&from=&limit=
+ *
+ * - `upTo`: list the garden as of this day (defaults to today)
+ * - `from`: first day of the page (defaults to 1)
+ * - `limit`: flowers per page, at most 1000 (defaults to 500)
+ */
+export async function GET(request: NextRequest) {
+    const params = request.nextUrl.searchParams;
+    const now = new Date();
+    const { count, flowers } = getCurrentGarden(now);
+
+    const upTo = parseDayParam(params.get('upTo'), count, 0, count);
+    const from = parseDayParam(params.get('from'), 1, 1, Math.max(1, upTo));
+    const limit = parseDayParam(
+        params.get('limit'),
+        DEFAULT_LIMIT,
+        1,
+        MAX_LIMIT,
+    );
+    const end = Math.min(upTo, from + limit - 1);
+
+    return NextResponse.json<GardenPageResponse>(
+        {
+            total: count,
+            upTo,
+            from,
+            flowers: flowers.slice(from - 1, end),
+            nextFrom: end < upTo ? end + 1 : null,
+        },
+        { headers: getDayCacheHeaders(now, GARDEN_PROFILE.timezone) },
+    );
+}
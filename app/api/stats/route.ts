@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { getCurrentGarden } from '@/lib/currentGarden';
+import { toZonedDateString } from '@/lib/dates';
+import { GardenStatsResponse, getDayCacheHeaders } from '@/lib/gardenApi';
+import { GARDEN_PROFILE, TEXT_SETS } from '@/lib/gardenConfig';
+import { computeGardenStats } from '@/lib/stats';
+
+/** GET /api/stats: counts, streaks and upcoming milestones, as in the stats panel. */
+export async function GET() {
+    const now = new Date();
+    const { flowers } = getCurrentGarden(now);
+    const today = toZonedDateString(now, GARDEN_PROFILE.timezone);
+
+    return NextResponse.json<GardenStatsResponse>(
+        {
+            ...computeGardenStats(flowers, GARDEN_PROFILE, TEXT_SETS, today),
+            startDate: GARDEN_PROFILE.startDate,
+            today,
+        },
+        { headers: getDayCacheHeaders(now, GARDEN_PROFILE.timezone) },
+    );
+}
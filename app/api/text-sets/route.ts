@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { getCurrentGarden } from '@/lib/currentGarden';
+import { TextSetSummary, getDayCacheHeaders } from '@/lib/gardenApi';
+import { GARDEN_PROFILE, TEXT_SETS } from '@/lib/gardenConfig';
+
+/**
+ * GET /api/text-sets
+ *
+ * Hidden messages with at least one flower planted. Their text is left out,
+ * as in the garden, so a message stays a surprise until it is revealed.
+ */
+export async function GET() {
+    const now = new Date();
+    const { flowers } = getCurrentGarden(now);
+    const planted = new Map<string, number>();
+    flowers.forEach((f) => {
+        if (f.textSetId) {
+            planted.set(f.textSetId, (planted.get(f.textSetId) ?? 0) + 1);
+        }
+    });
+
+    return NextResponse.json<TextSetSummary[]>(
+        TEXT_SETS.filter((ts) => planted.has(ts.id)).map((ts) => ({
+            id: ts.id,
+            label: ts.label,
+            startDay: ts.startDay,
+            planted: planted.get(ts.id) ?? 0,
+        })),
+        { headers: getDayCacheHeaders(now, GARDEN_PROFILE.timezone) },
+    );
+}
@@ -0,0 +1,66 @@
+'use client';
+
+import { useState } from 'react';
+
+export default function AudioControl({
+    muted,
+    volume,
+    onMutedChange,
+    onVolumeChange,
+}: {
+    muted: boolean;
+    volume: number;
+    onMutedChange: (muted: boolean) => void;
+    onVolumeChange: (volume: number) => void;
+}) {
+    const [isOpen, setIsOpen] = useState(false);
+    const icon = muted || volume === 0 ? '🔇' : volume < 0.5 ? '🔉' : '🔊';
+
+    return (
+        <div className="pointer-events-auto flex items-center gap-2">
+            {isOpen && (
+                <div
+                    className="filter-menu flex items-center gap-2 rounded-full border border-white/15 bg-zinc-900/95 px-3 py-2 text-white shadow-lg backdrop-blur-xl"
+                    onClick={(event) => event.stopPropagation()}
+                >
+                    <button
+                        type="button"
+                        className="rounded-full px-2 text-[11px] uppercase tracking-[0.2em] text-white/70 transition hover:text-white"
+                        aria-pressed={muted}
+                        onClick={() => onMutedChange(!muted)}
+                    >
+                        {muted ? 'Unmute' : 'Mute'}
+                    </button>
+                    <input
+                        type="range"
+                        min={0}
+                        max={1}
+                        step={0.05}
+                        value={muted ? 0 : volume}
+                        aria-label="Ambient volume"
+                        className="w-28 accent-emerald-400"
+                        onChange={(event) =>
+                            onVolumeChange(Number(event.target.value))
+                        }
+                    />
+                </div>
+            )}
+            <button
+                type="button"
+                className={`flex h-11 w-11 items-center justify-center rounded-full text-sm font-semibold shadow-lg backdrop-blur focus-visible:outline focus-visible:outline-2 focus-visible:outline-white transition ${
+                    isOpen
+                        ? 'bg-emerald-400 text-emerald-950'
+                        : 'bg-zinc-900/90 text-white'
+                }`}
+                aria-label="Sound settings"
+                aria-expanded={isOpen}
+                onClick={(event) => {
+                    event.stopPropagation();
+                    setIsOpen((prev) => !prev);
+                }}
+            >
+                {icon}
+            </button>
+        </div>
+    );
+}
@@ -0,0 +1,192 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import {
+    addMonths,
+    formatDateLabel,
+    formatMonthLabel,
+    getDayOfWeek,
+    getMonthDates,
+} from '@/lib/dates';
+import { FlowerData } from '@/lib/garden';
+import { OCCASIONS, TEXT_SETS } from '@/lib/gardenConfig';
+import { describeFlower } from '@/lib/species';
+
+const WEEKDAYS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+
+// Why a day is worth spotting: its memory, occasion or hidden message
+function getDayNotes(f: FlowerData): string[] {
+    const notes: string[] = [];
+    if (f.memory) notes.push(f.memory.title);
+    const occasion = OCCASIONS.find((o) => o.id === f.occasionId);
+    if (occasion) notes.push(occasion.label);
+    const textSet = TEXT_SETS.find((ts) => ts.id === f.textSetId);
+    if (textSet) notes.push(`Part of “${textSet.label}”`);
+    return notes;
+}
+
+export default function CalendarView({
+    flowers,
+    initialDate,
+    onSelect,
+    onClose,
+}: {
+    flowers: FlowerData[];
+    // Opens on this date's month
+    initialDate: string;
+    onSelect: (f: FlowerData) => void;
+    onClose: () => void;
+}) {
+    const [month, setMonth] = useState(() => initialDate.slice(0, 7));
+    const flowersByDate = useMemo(
+        () => new Map(flowers.map((f) => [f.date, f])),
+        [flowers],
+    );
+    const firstMonth = flowers[0]?.date.slice(0, 7) ?? month;
+    const lastMonth = flowers[flowers.length - 1]?.date.slice(0, 7) ?? month;
+    const stepMonth = (months: number) =>
+        setMonth((prev) => {
+            const next = addMonths(prev, months);
+            if (next < firstMonth) return firstMonth;
+            return next > lastMonth ? lastMonth : next;
+        });
+    const dates = getMonthDates(month);
+    const leadingBlanks = getDayOfWeek(dates[0]);
+
+    return (
+        <div
+            className="filter-menu pointer-events-auto w-[min(94vw,420px)] rounded-2xl border border-white/15 bg-zinc-900/95 p-3 text-white shadow-[0_20px_60px_rgba(0,0,0,0.45)] backdrop-blur-xl"
+            onClick={(event) => event.stopPropagation()}
+        >
+            <div className="mb-2 flex items-center justify-between">
+                <div className="flex items-center">
+                    <button
+                        type="button"
+                        className="h-8 w-8 rounded-full text-lg transition hover:bg-white/10 disabled:opacity-30"
+                        aria-label="Previous year"
+                        disabled={month <= firstMonth}
+                        onClick={() => stepMonth(-12)}
+                    >
+                        «
+                    </button>
+                    <button
+                        type="button"
+                        className="h-8 w-8 rounded-full text-lg transition hover:bg-white/10 disabled:opacity-30"
+                        aria-label="Previous month"
+                        disabled={month <= firstMonth}
+                        onClick={() => stepMonth(-1)}
+                    >
+                        ‹
+                    </button>
+                </div>
+                <span className="text-sm font-semibold text-emerald-300">
+                    {formatMonthLabel(month)}
+                </span>
+                <div className="flex items-center">
+                    <button
+                        type="button"
+                        className="h-8 w-8 rounded-full text-lg transition hover:bg-white/10 disabled:opacity-30"
+                        aria-label="Next month"
+                        disabled={month >= lastMonth}
+                        onClick={() => stepMonth(1)}
+                    >
+                        ›
+                    </button>
+                    <button
+                        type="button"
+                        className="h-8 w-8 rounded-full text-lg transition hover:bg-white/10 disabled:opacity-30"
+                        aria-label="Next year"
+                        disabled={month >= lastMonth}
+                        onClick={() => stepMonth(12)}
+                    >
+                        »
+                    </button>
+                    <button
+                        type="button"
+                        className="h-8 w-8 rounded-full text-sm text-white/60 transition hover:bg-white/10 hover:text-white"
+                        aria-label="Close calendar"
+                        onClick={onClose}
+                    >
+                        ✕
+                    </button>
+                </div>
+            </div>
+
+            <div className="grid grid-cols-7 gap-1 text-center">
+                {WEEKDAYS.map((weekday, i) => (
+                    <div
+                        key={i}
+                        className="text-[10px] uppercase tracking-widest text-white/40"
+                    >
+                        {weekday}
+                    </div>
+                ))}
+                {Array.from({ length: leadingBlanks }, (_, i) => (
+                    <div key={`blank-${i}`} />
+                ))}
+                {dates.map((date) => {
+                    const f = flowersByDate.get(date);
+                    const dayOfMonth = Number(date.slice(8));
+                    if (!f) {
+                        return (
+                            <div
+                                key={date}
+                                className="flex aspect-square items-start justify-start rounded-lg p-1 text-[10px] text-white/20"
+                            >
+                                {dayOfMonth}
+                            </div>
+                        );
+                    }
+                    const notes = getDayNotes(f);
+                    return (
+                        <button
+                            key={date}
+                            type="button"
+                            className={`relative flex aspect-square items-center justify-center rounded-lg bg-white/5 transition hover:bg-white/15 ${
+                                f.textSetId ? 'ring-1 ring-emerald-400/70' : ''
+                            }`}
+                            title={[
+                                `Day ${f.dayNumber.toLocaleString()} · ${formatDateLabel(date)}`,
+                                describeFlower(f.svg),
+                                ...notes,
+                            ].join('\n')}
+                            onClick={() => onSelect(f)}
+                        >
+                            <span className="absolute left-1 top-0.5 text-[10px] text-white/50">
+                                {dayOfMonth}
+                            </span>
+                            <img
+                                src={`/flowers/${f.svg}`}
+                                alt={describeFlower(f.svg)}
+                                className="h-3/4 w-3/4"
+                                draggable={false}
+                            />
+                            {(f.memory || f.occasionId) && (
+                                <span
+                                    className={`absolute right-1 top-1 h-1.5 w-1.5 rounded-full ${
+                                        f.memory ? 'bg-rose-400' : 'bg-amber-300'
+                                    }`}
+                                />
+                            )}
+                        </button>
+                    );
+                })}
+            </div>
+
+            <div className="mt-3 flex flex-wrap gap-x-3 gap-y-1 text-[10px] text-white/50">
+                <span className="flex items-center gap-1">
+                    <span className="h-1.5 w-1.5 rounded-full bg-rose-400" />
+                    Memory
+                </span>
+                <span className="flex items-center gap-1">
+                    <span className="h-1.5 w-1.5 rounded-full bg-amber-300" />
+                    Occasion
+                </span>
+                <span className="flex items-center gap-1">
+                    <span className="h-2 w-2 rounded-sm ring-1 ring-emerald-400/70" />
+                    Hidden message
+                </span>
+            </div>
+        </div>
+    );
+}
@@ -1,64 +1,76 @@
 'use client';
 
-import { useState, useEffect, useCallback, useMemo } from 'react';
-import { FlowerData, EmojiData } from '@/lib/garden';
-import { TEXT_SETS, ROTATING_COUNT } from '@/lib/gardenConfig';
-import { mulberry32 } from '@/lib/random';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { FlowerData, EmojiData, pickVisibleEmojis } from '@/lib/garden';
+import {
+    GardenProfile,
+    OCCASIONS,
+    OccasionTheme,
+    TEXT_SETS,
+    ROTATING_COUNT,
+    WEATHER,
+} from '@/lib/gardenConfig';
+import { daysBetween, formatDateLabel, toZonedDateString } from '@/lib/dates';
+import { MoonPhase, getMoonPhase } from '@/lib/nightSky';
+import {
+    GRASS_BG,
+    GRASS_BG2,
+    TINT_OVERLAY,
+    TimeOfDay,
+    TimeOfDayBlend,
+    blendPaletteColor,
+    getTimeOfDayBlend,
+} from '@/lib/timeOfDay';
+import {
+    AUTUMN_LEAF_COLORS,
+    SEASON_GRASS_BG,
+    SEASON_GRASS_BG2,
+    Season,
+    getSeason,
+} from '@/lib/seasons';
+import { AmbientEngine } from '@/lib/soundscape';
 import { useAmbientAudio } from '@/lib/useAmbientAudio';
-
-// --- Time of day ---
-type TimeOfDay = 'night' | 'dawn' | 'morning' | 'day' | 'sunset' | 'dusk';
-
-function getTimeOfDay(hour: number): TimeOfDay {
-    if (hour >= 22 || hour < 5) return 'night';
-    if (hour >= 5 && hour < 7) return 'dawn';
-    if (hour >= 7 && hour < 10) return 'morning';
-    if (hour >= 10 && hour < 17) return 'day';
-    if (hour >= 17 && hour < 19) return 'sunset';
-    return 'dusk';
-}
-
-// Top-view: looking down at grass, pastel tones per time of day
-const GRASS_BG: Record<TimeOfDay, string> = {
-    night: '#1e3a1e',
-    dawn: '#b8ccaa',
-    morning: '#c6d9b4',
-    day: '#d0e2be',
-    sunset: '#c8d4a8',
-    dusk: '#8aa878',
-};
-
-const GRASS_BG2: Record<TimeOfDay, string> = {
-    night: '#162e16',
-    dawn: '#a8c09a',
-    morning: '#b8d0a4',
-    day: '#c0d8ae',
-    sunset: '#bcc89c',
-    dusk: '#7a9a6a',
-};
-
-const TINT_OVERLAY: Record<TimeOfDay, string> = {
-    night: 'bg-black/25',
-    dawn: 'bg-transparent',
-    morning: 'bg-transparent',
-    day: 'bg-transparent',
-    sunset: 'bg-orange-900/5',
-    dusk: 'bg-black/10',
-};
+import { useLiveFlowers } from '@/lib/useLiveFlowers';
+import { useWeather } from '@/lib/useWeather';
+import {
+    WeatherState,
+    createFixedWeatherProvider,
+    createWeatherProvider,
+} from '@/lib/weather';
+import {
+    IDENTITY_CAMERA,
+    focusCamera,
+    getFlowerZoom,
+    useCamera,
+    worldToScreen,
+} from '@/lib/useCamera';
+import { applyGardenLink } from '@/lib/deepLink';
+import { getGrowingFlowers } from '@/lib/growth';
+import { getActiveOccasion } from '@/lib/occasions';
+import {
+    FLOWER_SPECIES,
+    describeFlower,
+    getFlowerVariant,
+    getSpecies,
+} from '@/lib/species';
+import AudioControl from './AudioControl';
+import CalendarView from './CalendarView';
+import NightSky from './NightSky';
+import StatsPanel from './StatsPanel';
+import TimeTravel from './TimeTravel';
+import GardenCanvas from './GardenCanvas';
+import {
+    GROWTH_SCALE,
+    GardenRenderer,
+    Particle,
+    getFlowerFilter,
+    getFlowerImageSrc,
+    getFlowerRenderState,
+    getFlowerSpecies,
+    getGrowthFilter,
+} from './gardenScene';
 
 // --- Particles ---
-interface Particle {
-    id: number;
-    x: number;
-    y: number;
-    size: number;
-    duration: number;
-    delay: number;
-    type: 'firefly' | 'petal' | 'leaf' | 'butterfly';
-    drift: number;
-    color?: string;
-}
-
 const BUTTERFLY_COLORS = [
     ['#f9a8d4', '#f472b6'], // pink
     ['#fde68a', '#f59e0b'], // yellow
@@ -68,18 +80,93 @@ const BUTTERFLY_COLORS = [
     ['#86efac', '#22c55e'], // green
 ];
 
-function generateParticles(timeOfDay: TimeOfDay): Particle[] {
+function pickColor(colors: string[] | undefined): string | undefined {
+    return colors?.length
+        ? colors[Math.floor(Math.random() * colors.length)]
+        : undefined;
+}
+
+// Daytime falling particle: snow in winter, leaves in autumn, otherwise petals
+function getFallingType(season: Season, i: number): Particle['type'] {
+    if (season === 'winter') return 'snow';
+    if (season === 'autumn') return 'leaf';
+    return i % 3 === 0 ? 'leaf' : 'petal';
+}
+
+// Extra particles layered on top for rain, snow, fog and wind
+function generateWeatherParticles(
+    weather: WeatherState,
+    firstId: number,
+): Particle[] {
+    const { kind, intensity } = weather;
+    const particles: Particle[] = [];
+    const add = (count: number, make: () => Omit<Particle, 'id'>) => {
+        for (let i = 0; i < count; i++) {
+            particles.push({ id: firstId + particles.length, ...make() });
+        }
+    };
+
+    if (kind === 'rain') {
+        add(Math.round(40 + 80 * intensity), () => ({
+            type: 'rain',
+            x: -10 + Math.random() * 120,
+            y: -20 + Math.random() * 100,
+            size: 10 + Math.random() * 8,
+            duration: 0.6 + Math.random() * 0.4,
+            delay: Math.random() * 2,
+            drift: 10 + Math.random() * 20,
+        }));
+    } else if (kind === 'snow') {
+        add(Math.round(20 + 50 * intensity), () => ({
+            type: 'snow',
+            x: -10 + Math.random() * 110,
+            y: -10 + Math.random() * 110,
+            size: 3 + Math.random() * 5,
+            duration: 6 + Math.random() * 6,
+            delay: Math.random() * 12,
+            drift: 20 + Math.random() * 60,
+        }));
+    } else if (kind === 'fog') {
+        add(Math.round(3 + 5 * intensity), () => ({
+            type: 'fog',
+            x: -30 + Math.random() * 110,
+            y: -20 + Math.random() * 100,
+            size: 300 + Math.random() * 250,
+            duration: 30 + Math.random() * 20,
+            delay: Math.random() * 20,
+            drift: 80 + Math.random() * 120,
+        }));
+    } else if (kind === 'wind') {
+        add(Math.round(8 + 16 * intensity), () => ({
+            type: 'wind',
+            x: -20 + Math.random() * 100,
+            y: Math.random() * 100,
+            size: 40 + Math.random() * 50,
+            duration: 1.5 + Math.random() * 1.5,
+            delay: Math.random() * 6,
+            drift: 150 + Math.random() * 200,
+        }));
+    }
+    return particles;
+}
+
+function generateParticles(
+    timeOfDay: TimeOfDay,
+    season: Season,
+    theme: OccasionTheme | undefined,
+    weather: WeatherState,
+): Particle[] {
     const particles: Particle[] = [];
     const isNighty =
         timeOfDay === 'night' || timeOfDay === 'dusk' || timeOfDay === 'dawn';
+    // Petals and leaves blow further in the wind
+    const gust = weather.kind === 'wind' ? 1 + 2 * weather.intensity : 1;
 
     const count = isNighty ? 20 : 25;
     for (let i = 0; i < count; i++) {
         const type: Particle['type'] = isNighty
             ? 'firefly'
-            : i % 3 === 0
-              ? 'leaf'
-              : 'petal';
+            : getFallingType(season, i);
         particles.push({
             id: i,
             x: -10 + Math.random() * 110,
@@ -88,16 +175,24 @@ function generateParticles(timeOfDay: TimeOfDay): Particle[] {
                 ? 2 + Math.random() * 3
                 : type === 'leaf'
                   ? 12 + Math.random() * 10
-                  : 8 + Math.random() * 8,
+                  : type === 'snow'
+                    ? 4 + Math.random() * 5
+                    : 8 + Math.random() * 8,
             duration: isNighty ? 4 + Math.random() * 6 : 7 + Math.random() * 6,
             delay: Math.random() * 12,
             type,
-            drift: 40 + Math.random() * 80,
+            drift: (40 + Math.random() * 80) * gust,
+            color:
+                type === 'petal'
+                    ? pickColor(theme?.petalColors)
+                    : type === 'leaf' && season === 'autumn'
+                      ? pickColor(AUTUMN_LEAF_COLORS)
+                      : undefined,
         });
     }
 
-    // Add butterflies during daytime
-    if (!isNighty) {
+    // Add butterflies during daytime, except in winter or bad weather
+    if (!isNighty && season !== 'winter' && weather.kind === 'clear') {
         const butterflyCount = 6 + Math.floor(Math.random() * 4);
         for (let i = 0; i < butterflyCount; i++) {
             const colorPair =
@@ -113,23 +208,28 @@ function generateParticles(timeOfDay: TimeOfDay): Particle[] {
                 delay: Math.random() * 10,
                 type: 'butterfly',
                 drift: -60 + Math.random() * 120,
-                color: colorPair[0],
+                color: pickColor(theme?.butterflyColors) ?? colorPair[0],
             });
         }
     }
 
-    return particles;
+    return [
+        ...particles,
+        ...generateWeatherParticles(weather, particles.length),
+    ];
 }
 
-// --- Tooltip ---
-function formatDate(dateStr: string): string {
-    const d = new Date(dateStr + 'T00:00:00');
-    return d.toLocaleDateString('en-US', {
-        month: 'short',
-        day: 'numeric',
-        year: 'numeric',
-    });
-}
+const PARTICLE_CLASSES: Record<Particle['type'], string> = {
+    firefly:
+        'absolute rounded-full bg-yellow-200 shadow-[0_0_6px_2px_rgba(253,230,138,0.5)] animate-firefly',
+    petal: 'absolute animate-blow',
+    leaf: 'absolute animate-blow',
+    snow: 'absolute rounded-full bg-white/90 animate-blow',
+    rain: 'absolute rounded-full bg-sky-100/70 animate-rain',
+    fog: 'absolute rounded-full bg-[radial-gradient(closest-side,rgba(255,255,255,0.55),transparent)] animate-fog',
+    wind: 'absolute rounded-full bg-white/60 animate-wind',
+    butterfly: 'absolute animate-flutter',
+};
 
 // --- Grass patch SVG (subtle top-view texture) ---
 function GrassTexture({ color1, color2 }: { color1: string; color2: string }) {
@@ -176,48 +276,100 @@ function GrassTexture({ color1, color2 }: { color1: string; color2: string }) {
 
 // Flower size — big enough to see clearly on all devices
 const FLOWER_SIZE = 'clamp(22px, 5vw, 38px)';
-const BASE_SPECIES = [
-    'forgetmenot',
-    'lily',
-    'peony',
-    'rose',
-    'tulip',
-    'sunflower',
-] as const;
+const FOCUS_ZOOM = 3;
+const NIGHT_OFFSET_MS = 12 * 60 * 60 * 1000;
+const DAY_SKY: TimeOfDayBlend = {
+    timeOfDay: 'day',
+    from: 'day',
+    to: 'day',
+    t: 0,
+};
+const SPECIES_IDS = FLOWER_SPECIES.map((species) => species.id);
 
 export default function Garden({
-    flowers,
-    total,
+    profile,
+    flowers: initialFlowers,
+    total: initialTotal,
     emojis,
+    renderer = 'dom',
+    initialDay,
+    initialTextSet,
+    weather: weatherOverride,
+    audioEngine = 'loops',
 }: {
+    profile: GardenProfile;
     flowers: FlowerData[];
     total: number;
     emojis: EmojiData[];
+    renderer?: GardenRenderer;
+    // Deep link: open with this day's flower selected and zoomed
+    initialDay?: number;
+    // Deep link: open with this hidden message revealed
+    initialTextSet?: string;
+    // Manual weather, replacing the configured provider
+    weather?: WeatherState;
+    audioEngine?: AmbientEngine;
 }) {
+    // New days' flowers join the garden while the page is open
+    const flowers = useLiveFlowers(initialFlowers, profile);
+    const total = initialTotal + flowers.length - initialFlowers.length;
+    const weatherProvider = useMemo(
+        () =>
+            weatherOverride
+                ? createFixedWeatherProvider(weatherOverride)
+                : createWeatherProvider(WEATHER, profile),
+        [weatherOverride, profile],
+    );
+    const { kind: weatherKind, intensity: weatherIntensity } =
+        useWeather(weatherProvider);
+    const initialFlower = initialDay ? flowers[initialDay - 1] ?? null : null;
     const [selectedFlower, setSelectedFlower] = useState<FlowerData | null>(
-        null,
+        initialFlower,
+    );
+    const [sky, setSky] = useState<TimeOfDayBlend>(DAY_SKY);
+    const timeOfDay = sky.timeOfDay;
+    const [night, setNight] = useState<{ seed: number; moon: MoonPhase }>(
+        () => ({ seed: profile.seed, moon: getMoonPhase(new Date()) }),
     );
-    const [timeOfDay, setTimeOfDay] = useState<TimeOfDay>('day');
     const [particles, setParticles] = useState<Particle[]>([]);
     const [isFilterOpen, setIsFilterOpen] = useState(false);
-    const [activeTextSet, setActiveTextSet] = useState<string | null>(null);
+    const [isStatsOpen, setIsStatsOpen] = useState(false);
+    const [isCalendarOpen, setIsCalendarOpen] = useState(false);
+    const [activeTextSet, setActiveTextSet] = useState<string | null>(
+        initialTextSet ?? null,
+    );
     const [currentHour, setCurrentHour] = useState(() => new Date().getHours());
-    useAmbientAudio(timeOfDay);
-
+    const [clock, setClock] = useState(() => new Date());
+    // Today in the garden's timezone follows the clock, so a page left open
+    // overnight moves on to the new day's season and occasion
+    const today = toZonedDateString(clock, profile.timezone);
+    const season = useMemo(
+        () => getSeason(today, profile.hemisphere),
+        [today, profile.hemisphere],
+    );
+    const occasion = useMemo(
+        () => getActiveOccasion(today, OCCASIONS, profile),
+        [today, profile],
+    );
+    const theme = occasion?.theme;
+    // Flowers growing when the page opened; any later stage change plays `plant`
+    const [initialGrowing] = useState(() =>
+        getGrowingFlowers(flowers, new Date(), profile.timezone),
+    );
+    // Time travel: number of days shown, or null for today
+    const [isTimelineOpen, setIsTimelineOpen] = useState(false);
+    const [viewDay, setViewDay] = useState<number | null>(null);
+    const [isPlaying, setIsPlaying] = useState(false);
+    const playheadRef = useRef(0);
     // Pick which rotating emojis are visible this hour
-    const visibleEmojis = useMemo(() => {
-        const always = emojis.filter((e) => e.alwaysShow);
-        const rotating = emojis.filter((e) => !e.alwaysShow);
-        if (rotating.length <= ROTATING_COUNT) return emojis;
-        // Use hour as seed to pick ROTATING_COUNT emojis
-        const rng = mulberry32(currentHour * 9973 + 42);
-        const shuffled = [...rotating].sort(() => rng() - 0.5);
-        return [...always, ...shuffled.slice(0, ROTATING_COUNT)];
-    }, [emojis, currentHour]);
+    const visibleEmojis = useMemo(
+        () => pickVisibleEmojis(emojis, currentHour, ROTATING_COUNT),
+        [emojis, currentHour],
+    );
 
     const availableSpecies = useMemo(() => {
-        const set = new Set<string>(BASE_SPECIES);
-        flowers.forEach((f) => set.add(f.svg.split('-')[0]));
+        const set = new Set<string>(SPECIES_IDS);
+        flowers.forEach((f) => set.add(getFlowerSpecies(f)));
         return Array.from(set).sort();
     }, [flowers]);
 
@@ -225,8 +377,8 @@ export default function Garden({
         Record<string, boolean>
     >(() => {
         const initial: Record<string, boolean> = {};
-        const allSpecies = new Set<string>(BASE_SPECIES);
-        flowers.forEach((f) => allSpecies.add(f.svg.split('-')[0]));
+        const allSpecies = new Set<string>(SPECIES_IDS);
+        flowers.forEach((f) => allSpecies.add(getFlowerSpecies(f)));
         Array.from(allSpecies).forEach((type) => {
             initial[type] = true;
         });
@@ -250,20 +402,163 @@ export default function Garden({
     useEffect(() => {
         const update = () => {
             const now = new Date();
-            const tod = getTimeOfDay(now.getHours());
-            setTimeOfDay(tod);
-            setParticles(generateParticles(tod));
+            const next = getTimeOfDayBlend(now, profile);
+            setSky(next);
+            // A night keeps the date it started on, so the sky stays the same past midnight
+            const nightDate = toZonedDateString(
+                new Date(now.getTime() - NIGHT_OFFSET_MS),
+                profile.timezone,
+            );
+            setNight({
+                seed:
+                    profile.seed + daysBetween(profile.startDate, nightDate),
+                moon: getMoonPhase(now),
+            });
+            setParticles(
+                generateParticles(next.timeOfDay, season, theme, {
+                    kind: weatherKind,
+                    intensity: weatherIntensity,
+                }),
+            );
             setCurrentHour(now.getHours());
+            setClock(now);
         };
         update();
         const id = setInterval(update, 60000);
         return () => clearInterval(id);
-    }, []);
+    }, [profile, season, theme, weatherKind, weatherIntensity]);
+
+    const visibleFlowers = useMemo(
+        () => (viewDay === null ? flowers : flowers.slice(0, viewDay)),
+        [flowers, viewDay],
+    );
+    const growing = useMemo(
+        () => getGrowingFlowers(flowers, clock, profile.timezone),
+        [flowers, clock, profile.timezone],
+    );
+
+    // What the generative soundscape hears: shown flowers per species
+    const speciesCounts = useMemo(() => {
+        const counts: Record<string, number> = {};
+        visibleFlowers.forEach((f) => {
+            const species = getFlowerSpecies(f);
+            if (typeVisibility[species] === false) return;
+            counts[species] = (counts[species] ?? 0) + 1;
+        });
+        return counts;
+    }, [visibleFlowers, typeVisibility]);
+
+    const audio = useAmbientAudio(timeOfDay, weatherKind, {
+        engine: audioEngine,
+        seed: profile.seed,
+        species: speciesCounts,
+    });
+    const { playChime } = audio;
+
+    // Replay: plant one flower per frame until today is reached
+    useEffect(() => {
+        if (!isPlaying) return;
+        let frameId = 0;
+        const step = () => {
+            playheadRef.current += 1;
+            if (playheadRef.current >= flowers.length) {
+                setViewDay(null);
+                setIsPlaying(false);
+                return;
+            }
+            setViewDay(playheadRef.current);
+            frameId = requestAnimationFrame(step);
+        };
+        frameId = requestAnimationFrame(step);
+        return () => cancelAnimationFrame(frameId);
+    }, [isPlaying, flowers.length]);
+
+    const scrubTo = useCallback(
+        (day: number) => {
+            setIsPlaying(false);
+            setViewDay(day >= flowers.length ? null : day);
+        },
+        [flowers.length],
+    );
 
-    const handleFlowerClick = useCallback((f: FlowerData) => {
-        setSelectedFlower((prev) => (prev?.id === f.id ? null : f));
+    const togglePlay = useCallback(() => {
+        if (isPlaying) {
+            setIsPlaying(false);
+            return;
+        }
+        playheadRef.current = viewDay === null ? 0 : viewDay;
+        setViewDay(playheadRef.current);
+        setIsPlaying(true);
+    }, [isPlaying, viewDay]);
+
+    // Download the garden as currently shown (time travel and time of day included)
+    const downloadSnapshot = useCallback(
+        (format: 'png' | 'svg') => {
+            const dpr = window.devicePixelRatio || 1;
+            const query = new URLSearchParams({
+                day: String(visibleFlowers.length),
+                size: `${Math.round(window.innerWidth * dpr)}x${Math.round(window.innerHeight * dpr)}`,
+                time: timeOfDay,
+                format,
+            });
+            const link = document.createElement('a');
+            link.href = `/snapshot?${query}`;
+            link.download = `garden-day-${visibleFlowers.length}.${format}`;
+            link.click();
+        },
+        [visibleFlowers.length, timeOfDay],
+    );
+
+    const toggleTimeline = useCallback(() => {
+        setIsTimelineOpen((prev) => !prev);
+        setIsPlaying(false);
+        setViewDay(null);
     }, []);
 
+    const lastDoubleTapRef = useRef(0);
+    const {
+        camera,
+        containerRef,
+        focusOn,
+        handlers: cameraHandlers,
+    } = useCamera(
+        () => {
+            lastDoubleTapRef.current = performance.now();
+        },
+        initialFlower
+            ? focusCamera(initialFlower.x, initialFlower.y, FOCUS_ZOOM)
+            : IDENTITY_CAMERA,
+    );
+
+    const handleFlowerClick = useCallback(
+        (f: FlowerData) => {
+            // The second tap of a double-tap keeps the flower and zooms to it
+            if (performance.now() - lastDoubleTapRef.current < 100) {
+                setSelectedFlower(f);
+                focusOn(f.x, f.y, FOCUS_ZOOM);
+                return;
+            }
+            if (selectedFlower?.id !== f.id) playChime();
+            setSelectedFlower((prev) => (prev?.id === f.id ? null : f));
+        },
+        [focusOn, playChime, selectedFlower],
+    );
+
+    // From the calendar: leave time travel if needed, then select and zoom
+    const jumpToFlower = useCallback(
+        (f: FlowerData) => {
+            setIsCalendarOpen(false);
+            if (viewDay !== null && f.dayNumber > viewDay) {
+                setIsPlaying(false);
+                setViewDay(null);
+            }
+            setSelectedFlower(f);
+            focusOn(f.x, f.y, FOCUS_ZOOM);
+            playChime();
+        },
+        [focusOn, playChime, viewDay],
+    );
+
     const toggleFlowerType = useCallback((type: string) => {
         setTypeVisibility((prev) => ({
             ...prev,
@@ -283,23 +578,57 @@ export default function Garden({
     const discoveredTextSets = useMemo(
         () =>
             TEXT_SETS.filter((ts) =>
-                flowers.some((f) => f.textSetId === ts.id),
+                visibleFlowers.some((f) => f.textSetId === ts.id),
             ),
-        [flowers],
+        [visibleFlowers],
     );
 
+    // Keep the URL shareable: ?day=… for the selected flower, ?message=… for the revealed text set
     useEffect(() => {
-        setSelectedFlower(null);
-    }, [activeTextSet]);
-    const newestFlowerId = flowers[flowers.length - 1]?.id ?? null;
+        const url = new URL(window.location.href);
+        applyGardenLink(url.searchParams, {
+            day: selectedFlower?.dayNumber,
+            message: activeTextSet ?? undefined,
+        });
+        if (url.href !== window.location.href) {
+            window.history.replaceState(window.history.state, '', url);
+        }
+    }, [selectedFlower, activeTextSet]);
+    const newestFlowerId =
+        visibleFlowers[visibleFlowers.length - 1]?.id ?? null;
+    const shownSelectedFlower =
+        selectedFlower && selectedFlower.id < visibleFlowers.length
+            ? selectedFlower
+            : null;
     const isNight = timeOfDay === 'night';
     const isDusk = timeOfDay === 'dusk';
+    // Grass colours move continuously with the sun between phases
+    const grass = blendPaletteColor(
+        { ...GRASS_BG, ...SEASON_GRASS_BG[season], ...theme?.grass },
+        sky,
+    );
+    const grass2 = blendPaletteColor(
+        { ...GRASS_BG2, ...SEASON_GRASS_BG2[season], ...theme?.grass2 },
+        sky,
+    );
+    const flowerFilter = getFlowerFilter(timeOfDay, night.moon.illumination);
+    // Clouds hide the night sky in rain, snow and fog
+    const isSkyClear = weatherKind === 'clear' || weatherKind === 'wind';
+    const selectedId = selectedFlower?.id ?? null;
+    const tooltipAnchor = shownSelectedFlower
+        ? worldToScreen(camera, shownSelectedFlower.x, shownSelectedFlower.y)
+        : null;
+    const tooltipVariant = shownSelectedFlower
+        ? getFlowerVariant(shownSelectedFlower.svg)
+        : undefined;
 
     return (
         <div
-            className="relative h-dvh w-screen overflow-hidden"
+            ref={containerRef}
+            className="relative h-dvh w-screen touch-none overflow-hidden"
+            {...cameraHandlers}
             style={{
-                backgroundColor: GRASS_BG[timeOfDay],
+                backgroundColor: grass,
                 transition: 'background-color 3s ease',
                 paddingTop: 'env(safe-area-inset-top)',
                 paddingBottom: 'env(safe-area-inset-bottom)',
@@ -308,264 +637,366 @@ export default function Garden({
                 if (e.target === e.currentTarget) {
                     setSelectedFlower(null);
                     setIsFilterOpen(false);
+                    setIsStatsOpen(false);
+                    setIsCalendarOpen(false);
                 }
             }}
         >
             {/* Grass texture */}
             <GrassTexture
-                color1={GRASS_BG[timeOfDay]}
-                color2={GRASS_BG2[timeOfDay]}
+                color1={grass}
+                color2={grass2}
             />
 
             {/* Time tint */}
             <div
-                className={`pointer-events-none absolute inset-0 transition-colors duration-[3000ms] ${TINT_OVERLAY[timeOfDay]}`}
+                className="pointer-events-none absolute inset-0 transition-colors duration-[3000ms]"
+                style={{ backgroundColor: TINT_OVERLAY[timeOfDay] }}
             />
 
-            {/* Stars (night only) */}
-            {(isNight || isDusk) && (
-                <div className="pointer-events-none absolute inset-0">
-                    {Array.from({ length: 40 }, (_, i) => (
-                        <div
-                            key={`star-${i}`}
-                            className="absolute rounded-full bg-white animate-twinkle"
-                            style={{
-                                left: `${(i * 37 + 13) % 100}%`,
-                                top: `${(i * 23 + 7) % 60}%`,
-                                width: 1 + (i % 3),
-                                height: 1 + (i % 3),
-                                animationDelay: `${(i * 0.3) % 3}s`,
-                                opacity: 0.3 + (i % 5) * 0.1,
-                            }}
-                        />
-                    ))}
-                </div>
+            {/* Stars and moon (night only) */}
+            {(isNight || isDusk) && isSkyClear && (
+                <NightSky seed={night.seed} moon={night.moon} />
             )}
 
-            {/* Floating particles */}
-            <div className="pointer-events-none absolute inset-0 overflow-hidden z-[5000]">
-                {particles.map((p) =>
-                    p.type === 'butterfly' ? (
-                        <div
-                            key={`particle-${p.id}`}
-                            className="absolute animate-flutter"
-                            style={{
-                                left: `${p.x}%`,
-                                top: `${p.y}%`,
-                                width: p.size,
-                                height: p.size,
-                                animationDuration: `${p.duration}s`,
-                                animationDelay: `${p.delay}s`,
-                                ['--drift' as string]: `${p.drift}px`,
-                            }}
-                        >
-                            {/* Left wing */}
-                            <span
-                                className="absolute top-0 left-0 animate-wing-left"
-                                style={{
-                                    width: '50%',
-                                    height: '100%',
-                                    background: p.color,
-                                    borderRadius: '50% 0 50% 50%',
-                                    opacity: 0.85,
-                                    transformOrigin: 'right center',
-                                }}
-                            />
-                            {/* Right wing */}
-                            <span
-                                className="absolute top-0 right-0 animate-wing-right"
-                                style={{
-                                    width: '50%',
-                                    height: '100%',
-                                    background: p.color,
-                                    borderRadius: '0 50% 50% 50%',
-                                    opacity: 0.85,
-                                    transformOrigin: 'left center',
-                                }}
-                            />
-                        </div>
-                    ) : (
-                        <div
-                            key={`particle-${p.id}`}
-                            className={
-                                p.type === 'firefly'
-                                    ? 'absolute rounded-full bg-yellow-200 shadow-[0_0_6px_2px_rgba(253,230,138,0.5)] animate-firefly'
-                                    : 'absolute animate-blow'
-                            }
-                            style={{
-                                left: `${p.x}%`,
-                                top: `${p.y}%`,
-                                width: p.size,
-                                height: p.size,
-                                animationDuration: `${p.duration}s`,
-                                animationDelay: `${p.delay}s`,
-                                ['--drift' as string]: `${p.drift}px`,
-                                ...(p.type === 'petal'
-                                    ? {
-                                          background:
-                                              'radial-gradient(ellipse, rgba(255,180,195,0.85), rgba(255,140,165,0.5))',
-                                          borderRadius: '50% 0 50% 0',
-                                      }
-                                    : {}),
-                                ...(p.type === 'leaf'
-                                    ? {
-                                          background:
-                                              'linear-gradient(135deg, rgba(100,170,60,0.85), rgba(60,130,30,0.6))',
-                                          borderRadius: '40% 0 60% 0',
-                                      }
-                                    : {}),
-                            }}
-                        />
-                    ),
-                )}
-            </div>
-
-            {/* Emojis */}
-            {visibleEmojis.map((e) => (
-                <div
-                    key={`emoji-${e.id}`}
-                    className="pointer-events-none absolute select-none"
-                    style={{
-                        left: `${e.x}%`,
-                        top: `${e.y}%`,
-                        transform: `translate(-50%, -50%) scale(${e.scale}) rotate(${e.rotation}deg)`,
-                        fontSize: 'clamp(18px, 4.5vw, 32px)',
-                        zIndex: e.zIndex,
-                        opacity: activeTextSet !== null ? 0.15 : 0.85,
-                        transition: 'opacity 0.35s ease',
-                    }}
-                >
-                    {e.emoji}
-                </div>
-            ))}
-
-            {/* Flowers */}
-            {flowers.map((f) => {
-                const isSelected = selectedFlower?.id === f.id;
-                // Deterministic sway: use flower id to pick animation delay & duration
-                const swayDelay = (f.id * 0.37) % 4;
-                const swayDuration = 3 + (f.id % 5) * 0.5;
-                const typeName = f.svg.split('-')[0];
-                const isEnabled = typeVisibility[typeName] ?? true;
-                const isTextFlower = !!f.textSetId;
-                const isNewestFlower =
-                    newestFlowerId !== null &&
-                    f.id === newestFlowerId;
-                const fadeByToggle = !isEnabled;
-                const fadeByReveal =
-                    activeTextSet !== null &&
-                    (!isTextFlower || f.textSetId !== activeTextSet);
-                const shouldFade = fadeByToggle || fadeByReveal;
-                const filterParts: string[] = [];
-                if (isNight) filterParts.push('brightness(0.45) saturate(0.6)');
-                else if (isDusk) filterParts.push('brightness(0.75)');
-                const baseZIndex = isSelected
-                    ? 100000
-                    : isTextFlower
-                      ? 200 + Math.round(f.zIndex * 10)
-                      : f.id;
-                // const auraShadow = isNewestFlower
-                //     ? '0 0 20px rgba(255,255,255,0.95), 0 0 40px rgba(255,180,200,0.8), 0 0 60px rgba(255,150,180,0.4)'
-                //     : 'none';
-
-                return (
-                    <div key={f.id} className="absolute" style={{
-                        left: `${f.x}%`,
-                        top: `${f.y}%`,
-                        zIndex: baseZIndex,
-                    }}>
-                        {/* Pulsing ring beacon for newest flower */}
-                        {/* {isNewestFlower && !shouldFade && (
-                            <>
+            {renderer === 'dom' ? (
+                <>
+                    {/* Floating particles */}
+                    <div className="pointer-events-none absolute inset-0 overflow-hidden z-[5000]">
+                        {particles.map((p) =>
+                            p.type === 'butterfly' ? (
                                 <div
-                                    className="pointer-events-none absolute animate-ping-ring"
+                                    key={`particle-${p.id}`}
+                                    className="absolute animate-flutter"
                                     style={{
-                                        width: 'clamp(50px, 12vw, 90px)',
-                                        height: 'clamp(50px, 12vw, 90px)',
-                                        transform: 'translate(-50%, -50%)',
-                                        borderRadius: '50%',
-                                        border: '2px solid rgba(255, 255, 255, 0.7)',
+                                        left: `${p.x}%`,
+                                        top: `${p.y}%`,
+                                        width: p.size,
+                                        height: p.size,
+                                        animationDuration: `${p.duration}s`,
+                                        animationDelay: `${p.delay}s`,
+                                        ['--drift' as string]: `${p.drift}px`,
                                     }}
-                                />
-                                <div
-                                    className="pointer-events-none absolute animate-ping-ring"
-                                    style={{
-                                        width: 'clamp(50px, 12vw, 90px)',
-                                        height: 'clamp(50px, 12vw, 90px)',
-                                        transform: 'translate(-50%, -50%)',
-                                        borderRadius: '50%',
-                                        border: '2px solid rgba(255, 180, 200, 0.6)',
-                                        animationDelay: '1s',
-                                    }}
-                                />
+                                >
+                                    {/* Left wing */}
+                                    <span
+                                        className="absolute top-0 left-0 animate-wing-left"
+                                        style={{
+                                            width: '50%',
+                                            height: '100%',
+                                            background: p.color,
+                                            borderRadius: '50% 0 50% 50%',
+                                            opacity: 0.85,
+                                            transformOrigin: 'right center',
+                                        }}
+                                    />
+                                    {/* Right wing */}
+                                    <span
+                                        className="absolute top-0 right-0 animate-wing-right"
+                                        style={{
+                                            width: '50%',
+                                            height: '100%',
+                                            background: p.color,
+                                            borderRadius: '0 50% 50% 50%',
+                                            opacity: 0.85,
+                                            transformOrigin: 'left center',
+                                        }}
+                                    />
+                                </div>
+                            ) : (
                                 <div
-                                    className="pointer-events-none absolute animate-newest-glow"
+                                    key={`particle-${p.id}`}
+                                    className={PARTICLE_CLASSES[p.type]}
                                     style={{
-                                        width: 'clamp(40px, 10vw, 70px)',
-                                        height: 'clamp(40px, 10vw, 70px)',
-                                        transform: 'translate(-50%, -50%)',
-                                        borderRadius: '50%',
-                                        background: 'radial-gradient(circle, rgba(255,255,255,0.4) 0%, rgba(255,200,220,0.2) 40%, transparent 70%)',
+                                        left: `${p.x}%`,
+                                        top: `${p.y}%`,
+                                        width: p.type === 'rain' ? 1.5 : p.size,
+                                        height: p.type === 'wind' ? 1 : p.size,
+                                        animationDuration: `${p.duration}s`,
+                                        animationDelay: `${p.delay}s`,
+                                        ['--drift' as string]: `${p.drift}px`,
+                                        ...(p.type === 'petal'
+                                            ? {
+                                                  background: p.color
+                                                      ? `radial-gradient(ellipse, color-mix(in srgb, ${p.color} 85%, transparent), color-mix(in srgb, ${p.color} 50%, transparent))`
+                                                      : 'radial-gradient(ellipse, rgba(255,180,195,0.85), rgba(255,140,165,0.5))',
+                                                  borderRadius: '50% 0 50% 0',
+                                              }
+                                            : {}),
+                                        ...(p.type === 'leaf'
+                                            ? {
+                                                  background: p.color
+                                                      ? `linear-gradient(135deg, color-mix(in srgb, ${p.color} 85%, transparent), color-mix(in srgb, ${p.color} 60%, transparent))`
+                                                      : 'linear-gradient(135deg, rgba(100,170,60,0.85), rgba(60,130,30,0.6))',
+                                                  borderRadius: '40% 0 60% 0',
+                                              }
+                                            : {}),
                                     }}
                                 />
-                            </>
-                        )} */}
-                        <button
-                            onClick={() => handleFlowerClick(f)}
-                            className="absolute border-0 bg-transparent p-0 cursor-pointer animate-sway"
-                            style={{
-                                width: FLOWER_SIZE,
-                                height: FLOWER_SIZE,
-                                transform: `translate(-50%, -50%) scale(${isSelected ? f.scale * 2.2 : f.scale}) rotate(${f.rotation}deg)`,
-                                filter: filterParts.length
-                                    ? filterParts.join(' ')
-                                    : 'none',
-                                transition:
-                                    'transform 0.3s ease, filter 0.35s ease, opacity 0.35s ease, box-shadow 0.45s ease',
-                                opacity: shouldFade ? 0.15 : 1,
-                                pointerEvents: fadeByToggle ? 'none' : 'auto',
-                                animationDelay: `${swayDelay}s`,
-                                animationDuration: `${swayDuration}s`,
-                                boxShadow: 'none',
-                            }}
-                        >
-                            <img
-                                src={`/flowers/${f.svg}`}
-                                alt=""
-                                draggable={false}
-                                className="h-full w-full"
-                                style={{ pointerEvents: 'none' }}
-                            />
-                        </button>
+                            ),
+                        )}
+                    </div>
+
+                    {/* Camera layer: everything placed in garden coordinates */}
+                    <div
+                        className="pointer-events-none absolute inset-0 origin-top-left"
+                        style={{
+                            transform: `translate(${camera.x}%, ${camera.y}%) scale(${camera.zoom})`,
+                            ['--flower-zoom' as string]: getFlowerZoom(camera),
+                        }}
+                    >
+                        {/* Emojis */}
+                        {visibleEmojis.map((e) => (
+                            <div
+                                key={`emoji-${e.id}`}
+                                className="pointer-events-none absolute select-none"
+                                style={{
+                                    left: `${e.x}%`,
+                                    top: `${e.y}%`,
+                                    transform: `translate(-50%, -50%) scale(${e.scale}) rotate(${e.rotation}deg)`,
+                                    fontSize:
+                                        'calc(clamp(18px, 4.5vw, 32px) * var(--flower-zoom))',
+                                    zIndex: e.zIndex,
+                                    opacity: activeTextSet !== null ? 0.15 : 0.85,
+                                    transition: 'opacity 0.35s ease',
+                                }}
+                            >
+                                {e.emoji}
+                            </div>
+                        ))}
+
+                        {/* Flowers */}
+                        {visibleFlowers.map((f) => {
+                            const {
+                                isSelected,
+                                fadeByToggle,
+                                shouldFade,
+                                zIndex: baseZIndex,
+                                stage,
+                            } = getFlowerRenderState(f, {
+                                selectedId,
+                                typeVisibility,
+                                activeTextSet,
+                                growing,
+                            });
+                            const isPlanting =
+                                stage !== (initialGrowing[f.id] ?? 'bloom');
+                            const growthScale = GROWTH_SCALE[stage];
+                            // Deterministic sway: use flower id to pick animation delay & duration
+                            const swayDelay = (f.id * 0.37) % 4;
+                            const swayDuration = 3 + (f.id % 5) * 0.5;
+                            const isNewestFlower =
+                                newestFlowerId !== null &&
+                                f.id === newestFlowerId;
+                            // const auraShadow = isNewestFlower
+                            //     ? '0 0 20px rgba(255,255,255,0.95), 0 0 40px rgba(255,180,200,0.8), 0 0 60px rgba(255,150,180,0.4)'
+                            //     : 'none';
+
+                            return (
+                                <div key={f.id} className="absolute" style={{
+                                    left: `${f.x}%`,
+                                    top: `${f.y}%`,
+                                    zIndex: baseZIndex,
+                                }}>
+                                    {/* Pulsing ring beacon for newest flower */}
+                                    {/* {isNewestFlower && !shouldFade && (
+                                        <>
+                                            <div
+                                                className="pointer-events-none absolute animate-ping-ring"
+                                                style={{
+                                                    width: 'clamp(50px, 12vw, 90px)',
+                                                    height: 'clamp(50px, 12vw, 90px)',
+                                                    transform: 'translate(-50%, -50%)',
+                                                    borderRadius: '50%',
+                                                    border: '2px solid rgba(255, 255, 255, 0.7)',
+                                                }}
+                                            />
+                                            <div
+                                                className="pointer-events-none absolute animate-ping-ring"
+                                                style={{
+                                                    width: 'clamp(50px, 12vw, 90px)',
+                                                    height: 'clamp(50px, 12vw, 90px)',
+                                                    transform: 'translate(-50%, -50%)',
+                                                    borderRadius: '50%',
+                                                    border: '2px solid rgba(255, 180, 200, 0.6)',
+                                                    animationDelay: '1s',
+                                                }}
+                                            />
+                                            <div
+                                                className="pointer-events-none absolute animate-newest-glow"
+                                                style={{
+                                                    width: 'clamp(40px, 10vw, 70px)',
+                                                    height: 'clamp(40px, 10vw, 70px)',
+                                                    transform: 'translate(-50%, -50%)',
+                                                    borderRadius: '50%',
+                                                    background: 'radial-gradient(circle, rgba(255,255,255,0.4) 0%, rgba(255,200,220,0.2) 40%, transparent 70%)',
+                                                }}
+                                            />
+                                        </>
+                                    )} */}
+                                    <button
+                                        onClick={() => handleFlowerClick(f)}
+                                        className="absolute border-0 bg-transparent p-0 cursor-pointer animate-sway"
+                                        style={{
+                                            width: `calc(${FLOWER_SIZE} * var(--flower-zoom))`,
+                                            height: `calc(${FLOWER_SIZE} * var(--flower-zoom))`,
+                                            transform: `translate(-50%, -50%) scale(${(isSelected ? f.scale * 2.2 : f.scale) * growthScale}) rotate(${f.rotation}deg)`,
+                                            filter: getGrowthFilter(
+                                                flowerFilter,
+                                                stage,
+                                            ),
+                                            transition:
+                                                'transform 0.3s ease, filter 0.35s ease, opacity 0.35s ease, box-shadow 0.45s ease',
+                                            opacity: shouldFade ? 0.15 : 1,
+                                            pointerEvents: fadeByToggle ? 'none' : 'auto',
+                                            animationDelay: `${swayDelay}s`,
+                                            animationDuration: `${swayDuration}s`,
+                                            boxShadow: 'none',
+                                        }}
+                                    >
+                                        <img
+                                            key={stage}
+                                            src={getFlowerImageSrc(f, stage)}
+                                            alt=""
+                                            draggable={false}
+                                            className={`h-full w-full ${isPlanting ? 'origin-bottom animate-plant' : ''}`}
+                                            style={{ pointerEvents: 'none' }}
+                                        />
+                                        {/* Subtle marker for days with a memory note */}
+                                        {f.memory && (
+                                            <span
+                                                className="pointer-events-none absolute -right-0.5 -top-0.5 h-1.5 w-1.5 rounded-full bg-white/90 shadow-[0_0_4px_1px_rgba(255,255,255,0.7)]"
+                                            />
+                                        )}
+                                    </button>
+                                </div>
+                            );
+                        })}
                     </div>
-                );
-            })}
+                </>
+            ) : (
+                <GardenCanvas
+                    flowers={visibleFlowers}
+                    emojis={visibleEmojis}
+                    particles={particles}
+                    timeOfDay={timeOfDay}
+                    moonIllumination={night.moon.illumination}
+                    selectedId={selectedId}
+                    typeVisibility={typeVisibility}
+                    activeTextSet={activeTextSet}
+                    growing={growing}
+                    camera={camera}
+                    onFlowerClick={handleFlowerClick}
+                    onBackgroundClick={() => {
+                        setSelectedFlower(null);
+                        setIsFilterOpen(false);
+                        setIsStatsOpen(false);
+                        setIsCalendarOpen(false);
+                    }}
+                />
+            )}
 
             {/* Flower tooltip */}
-            {selectedFlower && (
+            {shownSelectedFlower && tooltipAnchor && (
                 <div
                     className="pointer-events-none absolute z-[400000] animate-fade-in"
                     style={{
-                        left: `${Math.min(Math.max(selectedFlower.x, 12), 88)}%`,
-                        top: `${selectedFlower.y}%`,
-                        transform: `translate(-50%, ${selectedFlower.y > 50 ? '-140%' : '60%'})`,
+                        left: `${Math.min(Math.max(tooltipAnchor.x, 12), 88)}%`,
+                        top: `${tooltipAnchor.y}%`,
+                        transform: `translate(-50%, ${tooltipAnchor.y > 50 ? '-140%' : '60%'})`,
                     }}
                 >
                     <div className="rounded-xl bg-white/90 px-3 py-2 text-center shadow-lg backdrop-blur-md">
                         <p className="text-xs font-bold text-emerald-700 sm:text-sm">
-                            Day {selectedFlower.dayNumber.toLocaleString()}
+                            Day {shownSelectedFlower.dayNumber.toLocaleString()}
                         </p>
                         <p className="text-[10px] text-emerald-500 sm:text-xs">
-                            {formatDate(selectedFlower.date)}
+                            {formatDateLabel(shownSelectedFlower.date)}
                         </p>
+                        {tooltipVariant && (
+                            <p className="text-[10px] italic text-emerald-600 sm:text-xs">
+                                {describeFlower(shownSelectedFlower.svg)} —{' '}
+                                {tooltipVariant.species.meaning}
+                            </p>
+                        )}
+                        {shownSelectedFlower.memory && (
+                            <div className="mt-1.5 max-w-[220px] border-t border-emerald-100 pt-1.5">
+                                <p className="text-xs font-semibold text-rose-500 sm:text-sm">
+                                    {shownSelectedFlower.memory.title}
+                                </p>
+                                <p className="text-[10px] text-slate-600 sm:text-xs">
+                                    {shownSelectedFlower.memory.note}
+                                </p>
+                                {shownSelectedFlower.memory.tags?.length ? (
+                                    <p className="mt-1 text-[9px] uppercase tracking-widest text-emerald-400 sm:text-[10px]">
+                                        {shownSelectedFlower.memory.tags
+                                            .map((tag) => `#${tag}`)
+                                            .join(' ')}
+                                    </p>
+                                ) : null}
+                            </div>
+                        )}
                     </div>
                 </div>
             )}
 
-            <FloatingPanel total={total} />
+            <FloatingPanel
+                title={profile.title}
+                total={total}
+                message={occasion?.message}
+            />
+
+            {/* Time travel scrubber */}
+            {isTimelineOpen && (
+                <div
+                    className="pointer-events-none absolute bottom-4 left-4 right-20 z-[600000] flex justify-center"
+                    data-camera-ignore
+                >
+                    <TimeTravel
+                        day={visibleFlowers.length}
+                        total={flowers.length}
+                        date={
+                            visibleFlowers[visibleFlowers.length - 1]?.date ??
+                            null
+                        }
+                        isPlaying={isPlaying}
+                        onScrub={scrubTo}
+                        onTogglePlay={togglePlay}
+                    />
+                </div>
+            )}
+
+            {/* Calendar of every day's flower */}
+            {isCalendarOpen && (
+                <div
+                    className="pointer-events-none absolute inset-0 z-[620000] flex items-center justify-center"
+                    data-camera-ignore
+                >
+                    <CalendarView
+                        flowers={flowers}
+                        initialDate={
+                            (selectedFlower ?? flowers[flowers.length - 1])
+                                ?.date ?? profile.startDate
+                        }
+                        onSelect={jumpToFlower}
+                        onClose={() => setIsCalendarOpen(false)}
+                    />
+                </div>
+            )}
 
             {/* Flower type filter */}
-            <div className="pointer-events-none absolute bottom-4 right-4 z-[600000] flex flex-col items-end gap-3">
+            <div
+                className="pointer-events-none absolute bottom-4 right-4 z-[600000] flex flex-col items-end gap-3"
+                data-camera-ignore
+            >
+                {isStatsOpen && (
+                    <StatsPanel
+                        flowers={flowers}
+                        profile={profile}
+                        today={today}
+                    />
+                )}
+
                 {isFilterOpen && (
                     <div className="filter-menu pointer-events-auto relative z-[610000] w-60 rounded-2xl border border-white/15 bg-zinc-900/95 p-3 text-white shadow-[0_20px_60px_rgba(0,0,0,0.45)] backdrop-blur-xl">
                         {discoveredTextSets.length > 0 && (
@@ -584,6 +1015,7 @@ export default function Garden({
                                                     className="flex w-full items-center justify-between rounded-xl px-2 py-2 text-sm transition hover:bg-white/5"
                                                     onClick={(event) => {
                                                         event.stopPropagation();
+                                                        setSelectedFlower(null);
                                                         setActiveTextSet(
                                                             (prev) =>
                                                                 prev === ts.id
@@ -627,6 +1059,29 @@ export default function Garden({
                             </div>
                         )}
 
+                        <div className="mb-3 rounded-2xl bg-white/5 px-3 py-2">
+                            <div className="mb-2 text-xs uppercase tracking-[0.2em] text-white/60">
+                                Snapshot
+                            </div>
+                            <div className="flex gap-2">
+                                {(['png', 'svg'] as const).map((format) => (
+                                    <button
+                                        key={format}
+                                        type="button"
+                                        className="flex-1 rounded-xl px-2 py-2 text-sm transition hover:bg-white/5"
+                                        onClick={(event) => {
+                                            event.stopPropagation();
+                                            downloadSnapshot(format);
+                                        }}
+                                    >
+                                        {format === 'png'
+                                            ? 'Wallpaper'
+                                            : 'Print (SVG)'}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+
                         <div className="mb-2 flex items-center justify-between text-xs uppercase tracking-[0.2em] text-white/60">
                             <span>Flowers</span>
                             <button
@@ -643,9 +1098,7 @@ export default function Garden({
                         <ul className="space-y-1">
                             {availableSpecies.map((type) => {
                                 const enabled = typeVisibility[type] ?? true;
-                                const label =
-                                    type.charAt(0).toUpperCase() +
-                                    type.slice(1);
+                                const label = getSpecies(type)?.name ?? type;
                                 return (
                                     <li key={type}>
                                         <button
@@ -689,6 +1142,64 @@ export default function Garden({
                     </div>
                 )}
 
+                <AudioControl
+                    muted={audio.muted}
+                    volume={audio.volume}
+                    onMutedChange={audio.setMuted}
+                    onVolumeChange={audio.setVolume}
+                />
+
+                <button
+                    type="button"
+                    className={`pointer-events-auto flex h-11 w-11 items-center justify-center rounded-full text-sm font-semibold shadow-lg backdrop-blur focus-visible:outline focus-visible:outline-2 focus-visible:outline-white transition ${
+                        isTimelineOpen
+                            ? 'bg-emerald-400 text-emerald-950'
+                            : 'bg-zinc-900/90 text-white'
+                    }`}
+                    aria-label="Toggle time travel"
+                    aria-pressed={isTimelineOpen}
+                    onClick={(event) => {
+                        event.stopPropagation();
+                        toggleTimeline();
+                    }}
+                >
+                    ⏳
+                </button>
+
+                <button
+                    type="button"
+                    className={`pointer-events-auto flex h-11 w-11 items-center justify-center rounded-full text-sm font-semibold shadow-lg backdrop-blur focus-visible:outline focus-visible:outline-2 focus-visible:outline-white transition ${
+                        isStatsOpen
+                            ? 'bg-emerald-400 text-emerald-950'
+                            : 'bg-zinc-900/90 text-white'
+                    }`}
+                    aria-label="Toggle garden stats"
+                    aria-expanded={isStatsOpen}
+                    onClick={(event) => {
+                        event.stopPropagation();
+                        setIsStatsOpen((prev) => !prev);
+                    }}
+                >
+                    📊
+                </button>
+
+                <button
+                    type="button"
+                    className={`pointer-events-auto flex h-11 w-11 items-center justify-center rounded-full text-sm font-semibold shadow-lg backdrop-blur focus-visible:outline focus-visible:outline-2 focus-visible:outline-white transition ${
+                        isCalendarOpen
+                            ? 'bg-emerald-400 text-emerald-950'
+                            : 'bg-zinc-900/90 text-white'
+                    }`}
+                    aria-label="Toggle calendar"
+                    aria-expanded={isCalendarOpen}
+                    onClick={(event) => {
+                        event.stopPropagation();
+                        setIsCalendarOpen((prev) => !prev);
+                    }}
+                >
+                    📅
+                </button>
+
                 <button
                     type="button"
                     className={`pointer-events-auto flex h-11 w-11 items-center justify-center rounded-full text-sm font-semibold shadow-lg backdrop-blur focus-visible:outline focus-visible:outline-2 focus-visible:outline-white transition ${
@@ -710,7 +1221,15 @@ export default function Garden({
     );
 }
 
-function FloatingPanel({ total }: { total: number }) {
+function FloatingPanel({
+    title,
+    total,
+    message,
+}: {
+    title: string;
+    total: number;
+    message?: string;
+}) {
     const [isHidden, setIsHidden] = useState(false);
 
     if (isHidden) {
@@ -720,21 +1239,24 @@ function FloatingPanel({ total }: { total: number }) {
     return (
         <div className="pointer-events-none absolute inset-0 z-[300000] flex items-center justify-center">
             <button
+                data-camera-ignore
                 type="button"
                 className="pointer-events-auto w-[80vw] max-w-[300px] rounded-2xl bg-white/30 px-5 py-4 text-center text-white shadow-xl backdrop-blur-lg transition hover:bg-white/40 focus-visible:outline focus-visible:outline-2 focus-visible:outline-white/70 min-[390px]:w-[300px] md:max-w-[380px] md:px-10 md:py-7"
                 onClick={() => setIsHidden(true)}
-                aria-label="Hide Our Garden panel"
+                aria-label={`Hide ${title} panel`}
             >
                 <h1 className="font-sans text-[7vw] font-bold leading-tight tracking-tight text-slate-700 min-[390px]:text-3xl md:text-5xl">
-                    Our Garden
+                    {title}
                 </h1>
                 <p className="mt-1 text-[3.5vw] text-slate-600 min-[390px]:text-sm md:mt-2 md:text-xl">
                     {total.toLocaleString()} flowers planted
                 </p>
 
-                <p className="mt-3 border-t border-white/20 pt-3 text-[3.5vw] text-rose-300 font-semibold min-[390px]:text-sm md:text-lg">
-                    Happy Valentine&apos;s Day
-                </p>
+                {message && (
+                    <p className="mt-3 border-t border-white/20 pt-3 text-[3.5vw] text-rose-300 font-semibold min-[390px]:text-sm md:text-lg">
+                        {message}
+                    </p>
+                )}
 
                 <p className="mt-3 text-[2.5vw] uppercase tracking-widest text-slate-400 min-[390px]:text-[10px] md:text-xs">
                     Tap to hide — refresh to show again
@@ -0,0 +1,474 @@
+'use client';
+
+import { useEffect, useMemo, useRef } from 'react';
+import { FlowerData, EmojiData } from '@/lib/garden';
+import { Camera, getFlowerZoom } from '@/lib/useCamera';
+import { GrowthStage } from '@/lib/growth';
+import { TimeOfDay } from '@/lib/timeOfDay';
+import {
+    FlowerRenderState,
+    GROWTH_SCALE,
+    PLANT_SECONDS,
+    Particle,
+    getFlowerFilter,
+    getFlowerImageSrc,
+    getFlowerRenderState,
+    getGrowthFilter,
+} from './gardenScene';
+
+type DrawItem =
+    | {
+          kind: 'flower';
+          zIndex: number;
+          flower: FlowerData;
+          state: FlowerRenderState;
+      }
+    | { kind: 'emoji'; zIndex: number; emoji: EmojiData }
+    | { kind: 'particles'; zIndex: number };
+
+// Mirrors the z-index of the DOM particle layer
+const PARTICLE_LAYER_Z = 5000;
+const FADED_OPACITY = 0.15;
+const SELECTED_SCALE = 2.2;
+
+// Same sizes as the CSS clamp() values used by the DOM renderer
+function getFlowerSize(viewportWidth: number) {
+    return Math.min(38, Math.max(22, viewportWidth * 0.05));
+}
+
+function getEmojiSize(viewportWidth: number) {
+    return Math.min(32, Math.max(18, viewportWidth * 0.045));
+}
+
+const imageCache = new Map<string, HTMLImageElement>();
+
+function getFlowerImage(src: string): HTMLImageElement {
+    let img = imageCache.get(src);
+    if (!img) {
+        img = new Image();
+        img.src = src;
+        imageCache.set(src, img);
+    }
+    return img;
+}
+
+// Piecewise-linear interpolation between keyframe stops (0–1)
+function interpolate(phase: number, stops: number[], values: number[]): number {
+    let i = 1;
+    while (i < stops.length - 1 && phase > stops[i]) i++;
+    const span = stops[i] - stops[i - 1] || 1;
+    const t = Math.min(1, Math.max(0, (phase - stops[i - 1]) / span));
+    return values[i - 1] + (values[i] - values[i - 1]) * t;
+}
+
+// Same keyframes as `plant`, `firefly`, `blow` and `flutter` in globals.css
+const PLANT_STOPS = [0, 0.6, 1];
+const PLANT_SCALE = [0, 1.15, 1];
+const FIREFLY_OPACITY_STOPS = [0, 0.2, 0.5, 0.8, 1];
+const FIREFLY_MOVE_STOPS = [0, 0.5, 1];
+const BLOW_OPACITY_STOPS = [0, 0.05, 0.3, 0.6, 0.9, 1];
+const BLOW_MOVE_STOPS = [0, 0.3, 0.6, 1];
+const RAIN_STOPS = [0, 0.1, 1];
+const FOG_STOPS = [0, 0.5, 1];
+const WIND_STOPS = [0, 0.2, 0.8, 1];
+const FLUTTER_STOPS = [0, 0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7, 0.8, 0.9, 1];
+const FLUTTER_X = [0, 0.3, -0.2, 0.5, -0.3, 0.4, -0.15, 0.6, -0.25, 0.15, 0];
+const FLUTTER_Y = [0, -25, -40, -15, 20, -35, 10, -20, -45, -10, 0];
+const FLUTTER_ROTATE = [0, -8, 5, -12, 8, -6, 10, -4, 7, -3, 0];
+
+function drawParticle(
+    ctx: CanvasRenderingContext2D,
+    p: Particle,
+    seconds: number,
+    width: number,
+    height: number,
+) {
+    const elapsed = seconds - p.delay;
+    if (elapsed < 0) return;
+    const phase = (elapsed % p.duration) / p.duration;
+    const x = (p.x / 100) * width;
+    const y = (p.y / 100) * height;
+
+    ctx.save();
+    if (p.type === 'firefly') {
+        ctx.globalAlpha = interpolate(
+            phase,
+            FIREFLY_OPACITY_STOPS,
+            [0, 1, 0.6, 1, 0],
+        );
+        ctx.translate(
+            x +
+                interpolate(phase, FIREFLY_MOVE_STOPS, [
+                    0,
+                    p.drift,
+                    -0.5 * p.drift,
+                ]),
+            y + interpolate(phase, FIREFLY_MOVE_STOPS, [0, -30, 10]),
+        );
+        ctx.shadowColor = 'rgba(253,230,138,0.5)';
+        ctx.shadowBlur = 8;
+        ctx.fillStyle = '#fef08a';
+        ctx.beginPath();
+        ctx.arc(0, 0, p.size / 2, 0, Math.PI * 2);
+        ctx.fill();
+    } else if (p.type === 'rain') {
+        ctx.globalAlpha = interpolate(phase, RAIN_STOPS, [0, 0.7, 0]);
+        ctx.translate(
+            x + phase * p.drift,
+            y + phase * 0.4 * height,
+        );
+        ctx.strokeStyle = 'rgba(224,242,254,0.7)';
+        ctx.lineWidth = 1.5;
+        ctx.lineCap = 'round';
+        ctx.beginPath();
+        ctx.moveTo(0, 0);
+        ctx.lineTo(0, p.size);
+        ctx.stroke();
+    } else if (p.type === 'fog') {
+        ctx.globalAlpha = interpolate(phase, FOG_STOPS, [0, 1, 0]);
+        ctx.translate(x + phase * p.drift, y);
+        const radius = p.size / 2;
+        const gradient = ctx.createRadialGradient(
+            radius,
+            radius,
+            0,
+            radius,
+            radius,
+            radius,
+        );
+        gradient.addColorStop(0, 'rgba(255,255,255,0.55)');
+        gradient.addColorStop(1, 'rgba(255,255,255,0)');
+        ctx.fillStyle = gradient;
+        ctx.fillRect(0, 0, p.size, p.size);
+    } else if (p.type === 'wind') {
+        ctx.globalAlpha = interpolate(phase, WIND_STOPS, [0, 0.6, 0.6, 0]);
+        ctx.translate(x + phase * p.drift, y);
+        ctx.fillStyle = 'rgba(255,255,255,0.6)';
+        ctx.fillRect(0, 0, p.size, 1);
+    } else if (p.type === 'butterfly') {
+        ctx.translate(
+            x + interpolate(phase, FLUTTER_STOPS, FLUTTER_X) * p.drift,
+            y + interpolate(phase, FLUTTER_STOPS, FLUTTER_Y),
+        );
+        ctx.rotate(
+            (interpolate(phase, FLUTTER_STOPS, FLUTTER_ROTATE) * Math.PI) / 180,
+        );
+        const flap = 0.5 + 0.5 * Math.cos((seconds / 0.25) * Math.PI * 2);
+        const half = p.size / 2;
+        ctx.globalAlpha = 0.85;
+        ctx.fillStyle = p.color ?? '#f9a8d4';
+        for (const [side, open] of [
+            [-1, 0.25 + 0.75 * flap],
+            [1, 1 - 0.75 * flap],
+        ]) {
+            ctx.beginPath();
+            ctx.ellipse(
+                (side * half * open) / 2,
+                0,
+                (half * open) / 2,
+                half,
+                0,
+                0,
+                Math.PI * 2,
+            );
+            ctx.fill();
+        }
+    } else {
+        ctx.globalAlpha = interpolate(
+            phase,
+            BLOW_OPACITY_STOPS,
+            [0, 1, 0.9, 0.7, 0.3, 0],
+        );
+        ctx.translate(
+            x + interpolate(phase, BLOW_MOVE_STOPS, [0, 0.3, 0.7, 1]) * p.drift,
+            y +
+                interpolate(phase, BLOW_MOVE_STOPS, [0, 0.3, 0.65, 1.1]) *
+                    p.size,
+        );
+        ctx.rotate(
+            (interpolate(phase, BLOW_MOVE_STOPS, [0, 120, 250, 420]) *
+                Math.PI) /
+                180,
+        );
+        const scale = interpolate(phase, BLOW_MOVE_STOPS, [1, 1.1, 0.9, 0.7]);
+        ctx.scale(scale, scale);
+        ctx.fillStyle =
+            p.type === 'snow'
+                ? 'rgba(255,255,255,0.9)'
+                : p.type === 'leaf'
+                  ? (p.color ?? 'rgba(80,150,45,0.8)')
+                  : (p.color ?? 'rgba(255,160,180,0.75)');
+        ctx.beginPath();
+        ctx.ellipse(
+            0,
+            0,
+            p.size / 2,
+            p.type === 'snow' ? p.size / 2 : p.size / 3,
+            0,
+            0,
+            Math.PI * 2,
+        );
+        ctx.fill();
+    }
+    ctx.restore();
+}
+
+export default function GardenCanvas({
+    flowers,
+    emojis,
+    particles,
+    timeOfDay,
+    moonIllumination,
+    selectedId,
+    typeVisibility,
+    activeTextSet,
+    growing,
+    camera,
+    onFlowerClick,
+    onBackgroundClick,
+}: {
+    flowers: FlowerData[];
+    emojis: EmojiData[];
+    particles: Particle[];
+    timeOfDay: TimeOfDay;
+    moonIllumination: number;
+    selectedId: number | null;
+    typeVisibility: Record<string, boolean>;
+    activeTextSet: string | null;
+    growing: Record<number, GrowthStage>;
+    camera: Camera;
+    onFlowerClick: (f: FlowerData) => void;
+    onBackgroundClick: () => void;
+}) {
+    const canvasRef = useRef<HTMLCanvasElement | null>(null);
+
+    // Back to front, in the same order the DOM renderer stacks elements
+    const drawItems = useMemo(() => {
+        const items: DrawItem[] = [
+            ...emojis.map((emoji) => ({
+                kind: 'emoji' as const,
+                zIndex: emoji.zIndex,
+                emoji,
+            })),
+            { kind: 'particles', zIndex: PARTICLE_LAYER_Z },
+            ...flowers.map((flower) => {
+                const state = getFlowerRenderState(flower, {
+                    selectedId,
+                    typeVisibility,
+                    activeTextSet,
+                    growing,
+                });
+                return {
+                    kind: 'flower' as const,
+                    zIndex: state.zIndex,
+                    flower,
+                    state,
+                };
+            }),
+        ];
+        return items.sort((a, b) => a.zIndex - b.zIndex);
+    }, [flowers, emojis, selectedId, typeVisibility, activeTextSet, growing]);
+
+    const sceneRef = useRef({
+        drawItems,
+        particles,
+        timeOfDay,
+        moonIllumination,
+        activeTextSet,
+        camera,
+    });
+    useEffect(() => {
+        sceneRef.current = {
+            drawItems,
+            particles,
+            timeOfDay,
+            moonIllumination,
+            activeTextSet,
+            camera,
+        };
+    }, [
+        drawItems,
+        particles,
+        timeOfDay,
+        moonIllumination,
+        activeTextSet,
+        camera,
+    ]);
+
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        const ctx = canvas?.getContext('2d');
+        if (!canvas || !ctx) return;
+        let frameId = 0;
+        // Last drawn stage per flower; a change after the first frame plays `plant`
+        const drawnStages = new Map<number, GrowthStage>();
+        const plantStarts = new Map<number, number>();
+        let isFirstFrame = true;
+
+        const draw = (now: number) => {
+            const {
+                drawItems,
+                particles,
+                timeOfDay,
+                moonIllumination,
+                activeTextSet,
+                camera,
+            } = sceneRef.current;
+            const width = canvas.clientWidth;
+            const height = canvas.clientHeight;
+            const dpr = window.devicePixelRatio || 1;
+            if (canvas.width !== Math.round(width * dpr)) {
+                canvas.width = Math.round(width * dpr);
+            }
+            if (canvas.height !== Math.round(height * dpr)) {
+                canvas.height = Math.round(height * dpr);
+            }
+            ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+            ctx.clearRect(0, 0, width, height);
+
+            const seconds = now / 1000;
+            const flowerZoom = getFlowerZoom(camera);
+            const flowerSize = getFlowerSize(window.innerWidth) * flowerZoom;
+            const emojiSize = getEmojiSize(window.innerWidth) * flowerZoom;
+            // Garden percentages → screen pixels, through the camera
+            const toX = (x: number) =>
+                ((camera.x + camera.zoom * x) / 100) * width;
+            const toY = (y: number) =>
+                ((camera.y + camera.zoom * y) / 100) * height;
+            const flowerFilter = getFlowerFilter(timeOfDay, moonIllumination);
+
+            for (const item of drawItems) {
+                if (item.kind === 'particles') {
+                    particles.forEach((p) =>
+                        drawParticle(ctx, p, seconds, width, height),
+                    );
+                    continue;
+                }
+                ctx.save();
+                if (item.kind === 'emoji') {
+                    const { emoji } = item;
+                    ctx.globalAlpha = activeTextSet !== null ? 0.15 : 0.85;
+                    ctx.translate(toX(emoji.x), toY(emoji.y));
+                    ctx.scale(
+                        emoji.scale * camera.zoom,
+                        emoji.scale * camera.zoom,
+                    );
+                    ctx.rotate((emoji.rotation * Math.PI) / 180);
+                    ctx.font = `${emojiSize}px sans-serif`;
+                    ctx.textAlign = 'center';
+                    ctx.textBaseline = 'middle';
+                    ctx.fillText(emoji.emoji, 0, 0);
+                } else {
+                    const { flower: f, state } = item;
+                    const drawnStage = drawnStages.get(f.id);
+                    if (
+                        !isFirstFrame &&
+                        drawnStage !== state.stage &&
+                        (drawnStage !== undefined || state.stage !== 'bloom')
+                    ) {
+                        plantStarts.set(f.id, seconds);
+                    }
+                    drawnStages.set(f.id, state.stage);
+                    const img = getFlowerImage(
+                        getFlowerImageSrc(f, state.stage),
+                    );
+                    if (!img.complete || !img.naturalWidth) {
+                        ctx.restore();
+                        continue;
+                    }
+                    // Deterministic sway, matching the `sway` keyframes
+                    const swayDelay = (f.id * 0.37) % 4;
+                    const swayDuration = 3 + (f.id % 5) * 0.5;
+                    const sway =
+                        -2 *
+                        Math.cos(
+                            ((seconds - swayDelay) / swayDuration) *
+                                Math.PI *
+                                2,
+                        );
+                    const size =
+                        flowerSize *
+                        camera.zoom *
+                        (state.isSelected ? f.scale * SELECTED_SCALE : f.scale) *
+                        GROWTH_SCALE[state.stage];
+                    ctx.globalAlpha = state.shouldFade ? FADED_OPACITY : 1;
+                    ctx.filter = getGrowthFilter(flowerFilter, state.stage);
+                    ctx.translate(toX(f.x), toY(f.y));
+                    ctx.rotate(((f.rotation + sway) * Math.PI) / 180);
+                    const plantStart = plantStarts.get(f.id);
+                    if (plantStart !== undefined) {
+                        const phase = (seconds - plantStart) / PLANT_SECONDS;
+                        if (phase >= 1) {
+                            plantStarts.delete(f.id);
+                        } else {
+                            // Grows from the bottom edge, like `origin-bottom`
+                            const plantScale = interpolate(
+                                phase,
+                                PLANT_STOPS,
+                                PLANT_SCALE,
+                            );
+                            ctx.translate(0, size / 2);
+                            ctx.scale(plantScale, plantScale);
+                            ctx.translate(0, -size / 2);
+                        }
+                    }
+                    ctx.drawImage(img, -size / 2, -size / 2, size, size);
+                    if (f.memory) {
+                        ctx.filter = 'none';
+                        ctx.fillStyle = 'rgba(255,255,255,0.9)';
+                        ctx.beginPath();
+                        ctx.arc(size / 2, -size / 2, 3, 0, Math.PI * 2);
+                        ctx.fill();
+                    }
+                }
+                ctx.restore();
+            }
+            isFirstFrame = false;
+            frameId = requestAnimationFrame(draw);
+        };
+
+        frameId = requestAnimationFrame(draw);
+        return () => cancelAnimationFrame(frameId);
+    }, []);
+
+    const handleClick = (event: React.MouseEvent<HTMLCanvasElement>) => {
+        const canvas = canvasRef.current;
+        if (!canvas) return;
+        const rect = canvas.getBoundingClientRect();
+        const px = event.clientX - rect.left;
+        const py = event.clientY - rect.top;
+        const flowerSize =
+            getFlowerSize(window.innerWidth) *
+            getFlowerZoom(camera) *
+            camera.zoom;
+
+        // Topmost flower under the pointer wins, like DOM hit-testing
+        for (let i = drawItems.length - 1; i >= 0; i--) {
+            const item = drawItems[i];
+            if (item.kind !== 'flower' || item.state.fadeByToggle) continue;
+            const f = item.flower;
+            const radius =
+                (flowerSize *
+                    (item.state.isSelected ? f.scale * SELECTED_SCALE : f.scale) *
+                    GROWTH_SCALE[item.state.stage]) /
+                2;
+            const dx =
+                px - ((camera.x + camera.zoom * f.x) / 100) * rect.width;
+            const dy =
+                py - ((camera.y + camera.zoom * f.y) / 100) * rect.height;
+            if (dx * dx + dy * dy <= radius * radius) {
+                onFlowerClick(f);
+                return;
+            }
+        }
+        onBackgroundClick();
+    };
+
+    return (
+        <canvas
+            ref={canvasRef}
+            className="absolute inset-0 h-full w-full cursor-pointer"
+            onClick={handleClick}
+        />
+    );
+}
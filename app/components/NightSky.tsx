@@ -0,0 +1,81 @@
+'use client';
+
+import { useMemo } from 'react';
+import {
+    MoonPhase,
+    generateShootingStars,
+    generateStarField,
+    getMoonPath,
+} from '@/lib/nightSky';
+
+const MOON_RADIUS = 18;
+
+export default function NightSky({
+    seed,
+    moon,
+}: {
+    // Changes once per night, so the sky stays put until the next one
+    seed: number;
+    moon: MoonPhase;
+}) {
+    const stars = useMemo(() => generateStarField(seed), [seed]);
+    const shootingStars = useMemo(() => generateShootingStars(seed), [seed]);
+    const size = MOON_RADIUS * 2 + 4;
+
+    return (
+        <div className="pointer-events-none absolute inset-0 overflow-hidden">
+            {stars.map((star) => (
+                <div
+                    key={`star-${star.id}`}
+                    className="absolute rounded-full bg-white animate-twinkle"
+                    style={{
+                        left: `${star.x}%`,
+                        top: `${star.y}%`,
+                        width: star.size,
+                        height: star.size,
+                        animationDelay: `${star.twinkleDelay}s`,
+                        opacity: star.opacity,
+                    }}
+                />
+            ))}
+
+            {shootingStars.map((star) => (
+                <div
+                    key={`shooting-star-${star.id}`}
+                    className="absolute opacity-0 animate-shooting-star"
+                    style={{
+                        left: `${star.x}%`,
+                        top: `${star.y}%`,
+                        width: star.length,
+                        height: 1.5,
+                        background:
+                            'linear-gradient(90deg, rgba(255,255,255,0), rgba(255,255,255,0.9))',
+                        animationDuration: `${star.cycle}s`,
+                        animationDelay: `${star.delay}s`,
+                        ['--angle' as string]: `${star.angle}deg`,
+                    }}
+                />
+            ))}
+
+            {/* Moon: a dim full disc with the lit part drawn on top */}
+            {moon.illumination > 0.02 && (
+                <svg
+                    className="absolute right-[14%] top-[8%]"
+                    width={size}
+                    height={size}
+                    viewBox={`${-size / 2} ${-size / 2} ${size} ${size}`}
+                    aria-hidden
+                    style={{
+                        filter: `drop-shadow(0 0 ${6 + 14 * moon.illumination}px rgba(254, 249, 195, ${0.25 + 0.45 * moon.illumination}))`,
+                    }}
+                >
+                    <circle r={MOON_RADIUS} fill="rgba(226, 232, 240, 0.12)" />
+                    <path
+                        d={getMoonPath(moon.phase, MOON_RADIUS)}
+                        fill="#fefce8"
+                    />
+                </svg>
+            )}
+        </div>
+    );
+}
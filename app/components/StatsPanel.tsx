@@ -0,0 +1,167 @@
+'use client';
+
+import { useMemo } from 'react';
+import { formatDateLabel } from '@/lib/dates';
+import { FlowerData } from '@/lib/garden';
+import { GardenProfile, TEXT_SETS } from '@/lib/gardenConfig';
+import { getSpecies } from '@/lib/species';
+import { computeGardenStats } from '@/lib/stats';
+
+function formatCountdown(daysLeft: number) {
+    if (daysLeft === 0) return 'Today';
+    if (daysLeft === 1) return 'Tomorrow';
+    return `in ${daysLeft.toLocaleString()} days`;
+}
+
+function CountList({
+    counts,
+    label,
+}: {
+    counts: Record<string, number>;
+    label: (key: string) => string;
+}) {
+    const total = Object.values(counts).reduce((sum, n) => sum + n, 0);
+    return (
+        <ul className="space-y-1">
+            {Object.entries(counts)
+                .sort(([, a], [, b]) => b - a)
+                .map(([key, count]) => (
+                    <li key={key} className="text-xs">
+                        <div className="flex justify-between">
+                            <span className="capitalize">{label(key)}</span>
+                            <span className="text-white/60">
+                                {count.toLocaleString()}
+                            </span>
+                        </div>
+                        <div className="mt-0.5 h-1 rounded-full bg-white/10">
+                            <div
+                                className="h-1 rounded-full bg-emerald-400/80"
+                                style={{ width: `${(count / total) * 100}%` }}
+                            />
+                        </div>
+                    </li>
+                ))}
+        </ul>
+    );
+}
+
+function Section({
+    title,
+    children,
+}: {
+    title: string;
+    children: React.ReactNode;
+}) {
+    return (
+        <section className="rounded-2xl bg-white/5 px-3 py-2">
+            <div className="mb-2 text-xs uppercase tracking-[0.2em] text-white/60">
+                {title}
+            </div>
+            {children}
+        </section>
+    );
+}
+
+export default function StatsPanel({
+    flowers,
+    profile,
+    today,
+}: {
+    flowers: FlowerData[];
+    profile: GardenProfile;
+    // Today's date in the garden's timezone
+    today: string;
+}) {
+    const stats = useMemo(
+        () => computeGardenStats(flowers, profile, TEXT_SETS, today),
+        [flowers, profile, today],
+    );
+    const speciesName = (id: string) => getSpecies(id)?.name ?? id;
+
+    return (
+        <div
+            className="filter-menu pointer-events-auto relative z-[610000] max-h-[70dvh] w-72 space-y-3 overflow-y-auto rounded-2xl border border-white/15 bg-zinc-900/95 p-3 text-white shadow-[0_20px_60px_rgba(0,0,0,0.45)] backdrop-blur-xl"
+            onClick={(event) => event.stopPropagation()}
+        >
+            <Section title="Coming up">
+                <ul className="space-y-1">
+                    {stats.milestones.map((milestone) => (
+                        <li
+                            key={`${milestone.kind}-${milestone.label}`}
+                            className="flex justify-between text-xs"
+                        >
+                            <span>
+                                {milestone.label}
+                                <span className="ml-1 text-white/40">
+                                    {formatDateLabel(milestone.date)}
+                                </span>
+                            </span>
+                            <span className="font-semibold text-emerald-300">
+                                {formatCountdown(milestone.daysLeft)}
+                            </span>
+                        </li>
+                    ))}
+                </ul>
+            </Section>
+
+            <Section title="Species">
+                <CountList counts={stats.species} label={speciesName} />
+            </Section>
+
+            <Section title="Colours">
+                <CountList counts={stats.palettes} label={(id) => id} />
+            </Section>
+
+            <Section title="Longest streaks">
+                <ul className="space-y-1">
+                    {stats.streaks.map((streak) => (
+                        <li
+                            key={streak.species}
+                            className="flex justify-between text-xs"
+                        >
+                            <span>{speciesName(streak.species)}</span>
+                            <span className="text-white/60">
+                                {streak.length} days · Day{' '}
+                                {streak.fromDay.toLocaleString()}–
+                                {streak.toDay.toLocaleString()}
+                            </span>
+                        </li>
+                    ))}
+                </ul>
+            </Section>
+
+            <Section title="Garden">
+                <div className="flex justify-between text-xs">
+                    <span>Grid</span>
+                    <span className="text-white/60">
+                        {stats.grid.filled.toLocaleString()} /{' '}
+                        {stats.grid.cells.toLocaleString()} (
+                        {Math.floor(
+                            (stats.grid.filled / stats.grid.cells) * 100,
+                        )}
+                        %)
+                    </span>
+                </div>
+                {stats.grid.overflow > 0 && (
+                    <div className="flex justify-between text-xs">
+                        <span>Beyond the grid</span>
+                        <span className="text-white/60">
+                            {stats.grid.overflow.toLocaleString()}
+                        </span>
+                    </div>
+                )}
+                {stats.hiddenMessages.map((message) => (
+                    <div
+                        key={message.id}
+                        className="flex justify-between text-xs"
+                    >
+                        <span>{message.label}</span>
+                        <span className="text-white/60">
+                            {message.flowers.toLocaleString()} flowers
+                        </span>
+                    </div>
+                ))}
+            </Section>
+        </div>
+    );
+}
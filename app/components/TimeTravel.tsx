@@ -0,0 +1,55 @@
+'use client';
+
+import { formatDateLabel } from '@/lib/dates';
+
+export default function TimeTravel({
+    day,
+    total,
+    date,
+    isPlaying,
+    onScrub,
+    onTogglePlay,
+}: {
+    day: number;
+    total: number;
+    date: string | null;
+    isPlaying: boolean;
+    onScrub: (day: number) => void;
+    onTogglePlay: () => void;
+}) {
+    return (
+        <div
+            className="filter-menu pointer-events-auto flex w-[min(92vw,480px)] items-center gap-3 rounded-2xl border border-white/15 bg-zinc-900/95 px-3 py-2 text-white shadow-[0_20px_60px_rgba(0,0,0,0.45)] backdrop-blur-xl"
+            onClick={(event) => event.stopPropagation()}
+        >
+            <button
+                type="button"
+                className="flex h-9 w-9 shrink-0 items-center justify-center rounded-full bg-emerald-400/90 text-sm text-emerald-950 transition hover:bg-emerald-300"
+                aria-label={isPlaying ? 'Pause replay' : 'Replay the garden growing'}
+                onClick={onTogglePlay}
+            >
+                {isPlaying ? '❚❚' : '▶'}
+            </button>
+            <div className="flex min-w-0 flex-1 flex-col gap-1">
+                <div className="flex items-baseline justify-between text-xs">
+                    <span className="font-semibold text-emerald-300">
+                        Day {day.toLocaleString()}
+                    </span>
+                    <span className="truncate text-white/60">
+                        {date ? formatDateLabel(date) : 'Before day 1'}
+                    </span>
+                </div>
+                <input
+                    type="range"
+                    min={0}
+                    max={total}
+                    step={1}
+                    value={day}
+                    aria-label="Garden day"
+                    className="w-full accent-emerald-400"
+                    onChange={(event) => onScrub(Number(event.target.value))}
+                />
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,109 @@
+import { FlowerData, getFlowerStackOrder } from '@/lib/garden';
+import { GrowthStage } from '@/lib/growth';
+import { getSpeciesIdForSvg } from '@/lib/species';
+import { TimeOfDay } from '@/lib/timeOfDay';
+
+// Shared by the DOM and canvas renderers so both draw the same scene
+
+export interface Particle {
+    id: number;
+    x: number;
+    y: number;
+    size: number;
+    duration: number;
+    delay: number;
+    type:
+        | 'firefly'
+        | 'petal'
+        | 'leaf'
+        | 'snow'
+        | 'rain'
+        | 'fog'
+        | 'wind'
+        | 'butterfly';
+    drift: number;
+    color?: string;
+}
+
+export type GardenRenderer = 'dom' | 'canvas';
+
+export interface FlowerRenderState {
+    isSelected: boolean;
+    fadeByToggle: boolean;
+    shouldFade: boolean;
+    zIndex: number;
+    stage: GrowthStage;
+}
+
+// Seedlings and sprouts have their own drawings; a bud is its flower, small and muted
+const GROWTH_SPRITES: Partial<Record<GrowthStage, string>> = {
+    seedling: '/growth/seedling.svg',
+    sprout: '/growth/sprout.svg',
+};
+export const GROWTH_SCALE: Record<GrowthStage, number> = {
+    seedling: 1,
+    sprout: 1,
+    bud: 0.6,
+    bloom: 1,
+};
+// Length of the `plant` keyframes in globals.css, played when a stage begins
+export const PLANT_SECONDS = 1.2;
+
+export function getFlowerImageSrc(f: FlowerData, stage: GrowthStage): string {
+    return GROWTH_SPRITES[stage] ?? `/flowers/${f.svg}`;
+}
+
+export function getFlowerSpecies(f: FlowerData): string {
+    return getSpeciesIdForSvg(f.svg);
+}
+
+export function getFlowerRenderState(
+    f: FlowerData,
+    {
+        selectedId,
+        typeVisibility,
+        activeTextSet,
+        growing = {},
+    }: {
+        selectedId: number | null;
+        typeVisibility: Record<string, boolean>;
+        activeTextSet: string | null;
+        // Stages of flowers not yet in bloom, by id
+        growing?: Record<number, GrowthStage>;
+    },
+): FlowerRenderState {
+    const isSelected = selectedId === f.id;
+    const isTextFlower = !!f.textSetId;
+    const fadeByToggle = !(typeVisibility[getFlowerSpecies(f)] ?? true);
+    const fadeByReveal =
+        activeTextSet !== null &&
+        (!isTextFlower || f.textSetId !== activeTextSet);
+    return {
+        isSelected,
+        fadeByToggle,
+        shouldFade: fadeByToggle || fadeByReveal,
+        zIndex: isSelected ? 100000 : getFlowerStackOrder(f),
+        stage: growing[f.id] ?? 'bloom',
+    };
+}
+
+// Moonlight lifts the night dimming: a full moon brightens flowers by a half
+export function getFlowerFilter(
+    timeOfDay: TimeOfDay,
+    moonIllumination = 0,
+): string {
+    if (timeOfDay === 'night') {
+        const brightness = 0.45 + 0.25 * moonIllumination;
+        const saturate = 0.6 + 0.15 * moonIllumination;
+        return `brightness(${brightness.toFixed(2)}) saturate(${saturate.toFixed(2)})`;
+    }
+    if (timeOfDay === 'dusk') return 'brightness(0.75)';
+    return 'none';
+}
+
+export function getGrowthFilter(flowerFilter: string, stage: GrowthStage) {
+    if (stage !== 'bud') return flowerFilter;
+    return flowerFilter === 'none'
+        ? 'saturate(0.5)'
+        : `${flowerFilter} saturate(0.5)`;
+}
@@ -1,5 +1,6 @@
 import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
+import { GARDEN_PROFILE } from "@/lib/gardenConfig";
 import "./globals.css";
 
 const geistSans = Geist({
@@ -13,7 +14,7 @@ const geistMono = Geist_Mono({
 });
 
 export const metadata: Metadata = {
-  title: "Our Garden",
+  title: GARDEN_PROFILE.title,
   description: "A flower for every day we've been together",
 };
 
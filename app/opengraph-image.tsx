@@ -0,0 +1,94 @@
+import { ImageResponse } from 'next/og';
+import { getCurrentGarden } from '@/lib/currentGarden';
+import { formatDateLabel } from '@/lib/dates';
+import { loadFlowerAssets, toDataUri } from '@/lib/flowerAssets';
+import { GARDEN_PROFILE } from '@/lib/gardenConfig';
+import { describeFlower } from '@/lib/species';
+import { renderGardenSvg } from '@/lib/snapshot';
+
+export const dynamic = 'force-dynamic';
+
+export const alt = `${GARDEN_PROFILE.title} — a flower for every day`;
+export const size = { width: 1200, height: 630 };
+export const contentType = 'image/png';
+
+export default async function OpengraphImage() {
+    const { count, flowers } = getCurrentGarden();
+    const assets = await loadFlowerAssets();
+    const newest = flowers[flowers.length - 1];
+    const background = renderGardenSvg(flowers, [], assets, {
+        ...size,
+        timeOfDay: 'day',
+    });
+
+    return new ImageResponse(
+        (
+            <div
+                style={{
+                    width: '100%',
+                    height: '100%',
+                    display: 'flex',
+                    alignItems: 'center',
+                    justifyContent: 'center',
+                    position: 'relative',
+                }}
+            >
+                <img
+                    src={toDataUri(background)}
+                    width={size.width}
+                    height={size.height}
+                    alt=""
+                    style={{ position: 'absolute', top: 0, left: 0 }}
+                />
+                <div
+                    style={{
+                        display: 'flex',
+                        flexDirection: 'column',
+                        alignItems: 'center',
+                        padding: '40px 72px',
+                        borderRadius: 40,
+                        background: 'rgba(255, 255, 255, 0.82)',
+                        boxShadow: '0 20px 60px rgba(0, 0, 0, 0.2)',
+                    }}
+                >
+                    <div
+                        style={{
+                            fontSize: 84,
+                            fontWeight: 700,
+                            color: '#334155',
+                            letterSpacing: -2,
+                        }}
+                    >
+                        {GARDEN_PROFILE.title}
+                    </div>
+                    <div style={{ fontSize: 40, color: '#475569', marginTop: 8 }}>
+                        {`${count.toLocaleString()} flowers planted`}
+                    </div>
+                    {newest && (
+                        <div
+                            style={{
+                                display: 'flex',
+                                alignItems: 'center',
+                                marginTop: 28,
+                                paddingTop: 24,
+                                borderTop: '2px solid rgba(148, 163, 184, 0.35)',
+                                fontSize: 30,
+                                color: '#e11d48',
+                            }}
+                        >
+                            <img
+                                src={toDataUri(assets[newest.svg])}
+                                width={72}
+                                height={72}
+                                alt=""
+                                style={{ marginRight: 18 }}
+                            />
+                            {`Newest: ${describeFlower(newest.svg)} · ${formatDateLabel(newest.date)}`}
+                        </div>
+                    )}
+                </div>
+            </div>
+        ),
+        size,
+    );
+}
@@ -0,0 +1,49 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { generateMetadata } from './page';
+
+// 10:00 in Bangkok, with 3279 flowers planted
+const NOW = new Date('2026-10-19T10:00:00+07:00');
+
+function getMetadata(searchParams: Record<string, string>) {
+    return generateMetadata({ searchParams: Promise.resolve(searchParams) });
+}
+
+describe('generateMetadata', () => {
+    beforeEach(() => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(NOW);
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('previews a day link with a snapshot of that day', async () => {
+        const metadata = await getMetadata({ day: '1234' });
+        expect(metadata.title).toBe('Day 1,234 · Our Garden');
+        expect(metadata.openGraph).toMatchObject({
+            title: 'Day 1,234 · Our Garden',
+            description: metadata.description,
+            images: [
+                {
+                    url: '/snapshot?day=1234&format=png&size=1200x630',
+                    width: 1200,
+                    height: 630,
+                },
+            ],
+        });
+    });
+
+    it('describes a hidden message link', async () => {
+        const metadata = await getMetadata({ message: 'valentine-2026' });
+        expect(metadata.title).toBe("Valentine's Day · Our Garden");
+        expect(metadata.openGraph).toMatchObject({
+            title: "Valentine's Day · Our Garden",
+        });
+    });
+
+    it('keeps the default metadata for days not planted yet', async () => {
+        expect(await getMetadata({ day: '3280' })).toEqual({});
+        expect(await getMetadata({})).toEqual({});
+    });
+});
@@ -1,19 +1,101 @@
-import { generateGarden, generateEmojis } from '@/lib/garden';
-import { TEXT_SETS, ALWAYS_EMOJIS, ROTATING_EMOJIS } from '@/lib/gardenConfig';
+import type { Metadata } from 'next';
+import { generateEmojis } from '@/lib/garden';
+import { getCurrentGarden } from '@/lib/currentGarden';
+import { formatDateLabel } from '@/lib/dates';
+import { parseGardenLink, SearchParams } from '@/lib/deepLink';
+import {
+    GARDEN_PROFILE,
+    TEXT_SETS,
+    AMBIENT_ENGINE,
+    ALWAYS_EMOJIS,
+    ROTATING_EMOJIS,
+} from '@/lib/gardenConfig';
+import { getFlowerVariant } from '@/lib/species';
+import { isWeatherKind } from '@/lib/weather';
 import Garden from './components/Garden';
 
 export const dynamic = 'force-dynamic';
 
-const START_DATE = new Date('2017-10-27');
+export async function generateMetadata({
+    searchParams,
+}: {
+    searchParams: Promise<SearchParams>;
+}): Promise<Metadata> {
+    const { flowers } = getCurrentGarden();
+    const link = parseGardenLink(await searchParams, flowers);
+    const title = GARDEN_PROFILE.title;
 
-export default function Home() {
-    const today = new Date();
-    const daysSinceStart = Math.floor(
-        (today.getTime() - START_DATE.getTime()) / (1000 * 60 * 60 * 24),
-    );
-    const count = Math.max(0, daysSinceStart);
-    const flowers = generateGarden(count, TEXT_SETS);
+    if (link.day) {
+        const flower = flowers[link.day - 1];
+        const species =
+            getFlowerVariant(flower.svg)?.species.name.toLowerCase() ??
+            'flower';
+        const dayTitle = `Day ${link.day.toLocaleString()} · ${title}`;
+        const description = flower.memory
+            ? `${flower.memory.title} — ${formatDateLabel(flower.date)}`
+            : `A ${species} planted on ${formatDateLabel(flower.date)}`;
+        return {
+            title: dayTitle,
+            description,
+            openGraph: {
+                title: dayTitle,
+                description,
+                // The garden as it stood on that day, not today's default image
+                images: [
+                    {
+                        url: `/snapshot?day=${link.day}&format=png&size=1200x630`,
+                        width: 1200,
+                        height: 630,
+                        alt: dayTitle,
+                    },
+                ],
+            },
+        };
+    }
+
+    if (link.message) {
+        const textSet = TEXT_SETS.find((ts) => ts.id === link.message);
+        const messageTitle = `${textSet?.label ?? 'A hidden message'} · ${title}`;
+        const description = `A hidden message written in flowers in ${title}`;
+        return {
+            title: messageTitle,
+            description,
+            openGraph: { title: messageTitle, description },
+        };
+    }
+
+    return {};
+}
+
+export default async function Home({
+    searchParams,
+}: {
+    searchParams: Promise<SearchParams>;
+}) {
+    const params = await searchParams;
+    const { count, flowers } = getCurrentGarden();
+    const link = parseGardenLink(params, flowers);
     const emojis = generateEmojis(ALWAYS_EMOJIS, ROTATING_EMOJIS);
+    const weather =
+        typeof params.weather === 'string' && isWeatherKind(params.weather)
+            ? { kind: params.weather, intensity: 0.8 }
+            : undefined;
 
-    return <Garden flowers={flowers} total={count} emojis={emojis} />;
+    return (
+        <Garden
+            profile={GARDEN_PROFILE}
+            flowers={flowers}
+            total={count}
+            emojis={emojis}
+            renderer={params.renderer === 'canvas' ? 'canvas' : 'dom'}
+            initialDay={link.day}
+            initialTextSet={link.message}
+            weather={weather}
+            audioEngine={
+                params.audio === 'generative' || params.audio === 'loops'
+                    ? params.audio
+                    : AMBIENT_ENGINE
+            }
+        />
+    );
 }
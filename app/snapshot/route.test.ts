@@ -0,0 +1,79 @@
+import { NextRequest } from 'next/server';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { SEASON_GRASS_BG } from '@/lib/seasons';
+import { GET } from './route';
+
+// 10:00 in Bangkok, with 3279 flowers planted
+const NOW = new Date('2026-10-19T10:00:00+07:00');
+
+async function getSnapshot(query: string) {
+    const response = await GET(
+        new NextRequest(`http://localhost/snapshot${query}`),
+    );
+    return {
+        response,
+        filename: /filename="([^"]+)"/.exec(
+            response.headers.get('Content-Disposition') ?? '',
+        )?.[1],
+    };
+}
+
+describe('GET /snapshot', () => {
+    beforeEach(() => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(NOW);
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('shows today by default', async () => {
+        const { response, filename } = await getSnapshot('');
+        expect(filename).toBe('garden-day-3279.svg');
+        expect(response.headers.get('Content-Type')).toBe(
+            'image/svg+xml; charset=utf-8',
+        );
+        expect(await response.text()).toContain('Day 3,279');
+    });
+
+    it.each([
+        ['?day=100', 100],
+        ['?day=', 3279],
+        ['?day=abc', 3279],
+        ['?day=1.5', 3279],
+        ['?day=99999', 3279],
+        ['?day=-5', 0],
+    ])('reads %s as day %i', async (query, day) => {
+        const { filename } = await getSnapshot(query);
+        expect(filename).toBe(`garden-day-${day}.svg`);
+    });
+
+    it("uses the season of the day's own date", async () => {
+        // Day 100 is 2018-02-03, in winter; the latest day is in autumn
+        const { response: past } = await getSnapshot('?day=100&time=day');
+        expect(await past.text()).toContain(SEASON_GRASS_BG.winter.day);
+        const { response: latest } = await getSnapshot('?time=day');
+        expect(await latest.text()).toContain(SEASON_GRASS_BG.autumn.day);
+    });
+
+    it.each([
+        ['800x600', 800, 600],
+        ['300', 300, 300],
+        ['10x99999', 64, 4096],
+        ['large', 1920, 1080],
+    ])('reads size %s as %ix%i', async (size, width, height) => {
+        const { response } = await getSnapshot(`?size=${size}`);
+        expect(await response.text()).toContain(
+            `width="${width}" height="${height}" viewBox="0 0 ${width} ${height}"`,
+        );
+    });
+
+    it('renders a png when asked', async () => {
+        const { response, filename } = await getSnapshot(
+            '?day=10&format=png&size=120x63',
+        );
+        expect(filename).toBe('garden-day-10.png');
+        expect(response.headers.get('Content-Type')).toBe('image/png');
+    });
+});
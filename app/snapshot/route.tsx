@@ -0,0 +1,100 @@
+import { ImageResponse } from 'next/og';
+import { NextRequest } from 'next/server';
+import { generateEmojis, pickVisibleEmojis } from '@/lib/garden';
+import { getCurrentGarden } from '@/lib/currentGarden';
+import { getZonedHour } from '@/lib/dates';
+import { loadFlowerAssets, toDataUri } from '@/lib/flowerAssets';
+import { parseDayParam } from '@/lib/gardenApi';
+import {
+    GARDEN_PROFILE,
+    ALWAYS_EMOJIS,
+    ROTATING_EMOJIS,
+    ROTATING_COUNT,
+} from '@/lib/gardenConfig';
+import { getSeason } from '@/lib/seasons';
+import { renderGardenSvg } from '@/lib/snapshot';
+import { getTimeOfDayAt, isTimeOfDay } from '@/lib/timeOfDay';
+
+const DEFAULT_SIZE = { width: 1920, height: 1080 };
+const MIN_SIZE = 64;
+const MAX_SIZE = 4096;
+
+// "1920x1080", or a single number for a square
+function parseSize(value: string | null) {
+    const match = value ? /^(\d+)(?:x(\d+))?$/.exec(value) : null;
+    if (!match) return DEFAULT_SIZE;
+    const clamp = (n: number) => Math.min(MAX_SIZE, Math.max(MIN_SIZE, n));
+    const width = clamp(Number(match[1]));
+    return { width, height: clamp(Number(match[2] ?? match[1])) };
+}
+
+/**
+ * GET /snapshot?day=&size=&time=&format=
+ *
+ * - `day`: show the garden as of this day (defaults to today)
+ * - `size`: output size in pixels, e.g. `1920x1080`
+ * - `time`: a time of day such as `night`; defaults to now in the garden's timezone
+ * - `format`: `svg` (default) or `png`
+ */
+export async function GET(request: NextRequest) {
+    const params = request.nextUrl.searchParams;
+    const now = new Date();
+    const { count, flowers } = getCurrentGarden(now);
+
+    const day = parseDayParam(params.get('day'), count, 0, count);
+    const { width, height } = parseSize(params.get('size'));
+    const hour = getZonedHour(now, GARDEN_PROFILE.timezone);
+    const time = params.get('time') ?? '';
+    const timeOfDay = isTimeOfDay(time)
+        ? time
+        : getTimeOfDayAt(now, GARDEN_PROFILE);
+    const emojis = pickVisibleEmojis(
+        generateEmojis(ALWAYS_EMOJIS, ROTATING_EMOJIS),
+        hour,
+        ROTATING_COUNT,
+    );
+
+    const svg = renderGardenSvg(
+        flowers.slice(0, day),
+        emojis,
+        await loadFlowerAssets(),
+        {
+            width,
+            height,
+            timeOfDay,
+            // The season the garden was in on that day
+            season: getSeason(
+                day ? flowers[day - 1].date : GARDEN_PROFILE.startDate,
+                GARDEN_PROFILE.hemisphere,
+            ),
+            title: `${GARDEN_PROFILE.title} — Day ${day.toLocaleString()}`,
+        },
+    );
+    const filename = `garden-day-${day}`;
+
+    if (params.get('format') === 'png') {
+        const src = toDataUri(svg);
+        return new ImageResponse(
+            (
+                // eslint-disable-next-line @next/next/no-img-element
+                <img src={src} width={width} height={height} alt="" />
+            ),
+            {
+                width,
+                height,
+                headers: {
+                    'Content-Disposition': `inline; filename="${filename}.png"`,
+                    'Cache-Control': 'public, max-age=3600',
+                },
+            },
+        );
+    }
+
+    return new Response(svg, {
+        headers: {
+            'Content-Type': 'image/svg+xml; charset=utf-8',
+            'Content-Disposition': `inline; filename="${filename}.svg"`,
+            'Cache-Control': 'public, max-age=3600',
+        },
+    });
+}
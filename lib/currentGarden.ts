@@ -0,0 +1,15 @@
+import { getDaysSince } from "./dates";
+import { getGardenGenerator } from "./garden";
+import { GARDEN_PROFILE, OCCASIONS, TEXT_SETS } from "./gardenConfig";
+import { MEMORIES } from "./memories";
+
+// The configured garden, shared by the page and the route handlers
+export function getConfiguredGenerator() {
+  return getGardenGenerator(GARDEN_PROFILE, TEXT_SETS, MEMORIES, OCCASIONS);
+}
+
+export function getCurrentGarden(now: Date = new Date()) {
+  const count = getDaysSince(GARDEN_PROFILE.startDate, GARDEN_PROFILE.timezone, now);
+  const flowers = getConfiguredGenerator().getFlowersUpTo(count);
+  return { count, flowers };
+}
@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import {
+  addDays,
+  daysBetween,
+  getDaysSince,
+  getSecondsUntilMidnight,
+  getYearlyDate,
+  getZonedHour,
+  toZonedDateString,
+  yearsBetween,
+} from "./dates";
+
+describe("addDays", () => {
+  it("steps through Feb 29 in a leap year", () => {
+    expect(addDays("2024-02-28", 1)).toBe("2024-02-29");
+    expect(addDays("2024-02-29", 1)).toBe("2024-03-01");
+    expect(addDays("2024-03-01", -1)).toBe("2024-02-29");
+  });
+
+  it("skips from Feb 28 to Mar 1 in other years", () => {
+    expect(addDays("2023-02-28", 1)).toBe("2023-03-01");
+    expect(daysBetween("2023-02-28", "2023-03-01")).toBe(1);
+    expect(daysBetween("2024-02-28", "2024-03-01")).toBe(2);
+  });
+
+  it("is unaffected by DST, since calendar dates have no time", () => {
+    expect(addDays("2024-03-09", 1)).toBe("2024-03-10");
+    expect(daysBetween("2024-03-01", "2024-04-01")).toBe(31);
+  });
+});
+
+describe("yearsBetween", () => {
+  it("counts a year once its anniversary is reached", () => {
+    expect(yearsBetween("2017-10-27", "2018-10-26")).toBe(0);
+    expect(yearsBetween("2017-10-27", "2018-10-27")).toBe(1);
+    expect(yearsBetween("2017-10-27", "2026-10-19")).toBe(8);
+  });
+
+  it("reaches a Feb 29 anniversary on Feb 28 in non-leap years", () => {
+    expect(getYearlyDate(2017, 2, 29)).toBe("2017-02-28");
+    expect(getYearlyDate(2020, 2, 29)).toBe("2020-02-29");
+    expect(yearsBetween("2016-02-29", "2017-02-27")).toBe(0);
+    expect(yearsBetween("2016-02-29", "2017-02-28")).toBe(1);
+    expect(yearsBetween("2016-02-29", "2020-02-28")).toBe(3);
+    expect(yearsBetween("2016-02-29", "2020-02-29")).toBe(4);
+  });
+});
+
+describe("getDaysSince", () => {
+  const start = "2017-10-27";
+
+  it("turns over at midnight in Asia/Bangkok, not UTC", () => {
+    // 23:59:59 and 00:00:00 in Bangkok (UTC+7)
+    expect(getDaysSince(start, "Asia/Bangkok", new Date("2026-10-19T16:59:59Z"))).toBe(3279);
+    expect(getDaysSince(start, "Asia/Bangkok", new Date("2026-10-19T17:00:00Z"))).toBe(3280);
+  });
+
+  it("is 0 before the start date", () => {
+    expect(getDaysSince(start, "Asia/Bangkok", new Date("2017-10-01T00:00:00Z"))).toBe(0);
+  });
+
+  it("follows the DST offset in America/New_York", () => {
+    // Midnight is 05:00Z in winter (EST) and 04:00Z in summer (EDT)
+    expect(toZonedDateString(new Date("2024-01-15T04:59:59Z"), "America/New_York")).toBe("2024-01-14");
+    expect(toZonedDateString(new Date("2024-01-15T05:00:00Z"), "America/New_York")).toBe("2024-01-15");
+    expect(toZonedDateString(new Date("2024-07-15T03:59:59Z"), "America/New_York")).toBe("2024-07-14");
+    expect(toZonedDateString(new Date("2024-07-15T04:00:00Z"), "America/New_York")).toBe("2024-07-15");
+    expect(getDaysSince("2024-03-09", "America/New_York", new Date("2024-03-11T03:59:59Z"))).toBe(1);
+    expect(getDaysSince("2024-03-09", "America/New_York", new Date("2024-03-11T04:00:00Z"))).toBe(2);
+  });
+});
+
+describe("getZonedHour", () => {
+  it("jumps from 1 to 3 when New York springs forward", () => {
+    expect(getZonedHour(new Date("2024-03-10T06:59:59Z"), "America/New_York")).toBe(1);
+    expect(getZonedHour(new Date("2024-03-10T07:00:00Z"), "America/New_York")).toBe(3);
+  });
+});
+
+describe("getSecondsUntilMidnight", () => {
+  it("counts whole days in a zone without DST", () => {
+    expect(getSecondsUntilMidnight(new Date("2026-10-19T17:00:00Z"), "Asia/Bangkok")).toBe(86400);
+    expect(getSecondsUntilMidnight(new Date("2026-10-19T16:59:30Z"), "Asia/Bangkok")).toBe(30);
+  });
+
+  it("is an hour shorter on the day clocks spring forward", () => {
+    // 01:00 EST on 2024-03-10; the next midnight is 00:00 EDT, 22 real hours later
+    expect(getSecondsUntilMidnight(new Date("2024-03-10T06:00:00Z"), "America/New_York")).toBe(79200);
+  });
+
+  it("is an hour longer on the day clocks fall back", () => {
+    // 01:00 EDT on 2024-11-03; the next midnight is 00:00 EST, 24 real hours later
+    expect(getSecondsUntilMidnight(new Date("2024-11-03T05:00:00Z"), "America/New_York")).toBe(86400);
+  });
+});
@@ -0,0 +1,150 @@
+// Calendar dates are handled as plain "YYYY-MM-DD" strings. Arithmetic on
+// them goes through UTC so it never sees a DST transition; the configured
+// timezone only matters when turning a real instant into a calendar date.
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+const zonedFormatters = new Map<string, Intl.DateTimeFormat>();
+
+function getZonedFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = zonedFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+      hourCycle: "h23",
+    });
+    zonedFormatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+function getZonedParts(instant: Date, timeZone: string) {
+  const parts: Record<string, string> = {};
+  for (const { type, value } of getZonedFormatter(timeZone).formatToParts(instant)) {
+    parts[type] = value;
+  }
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+  };
+}
+
+function pad(value: number, length = 2): string {
+  return String(value).padStart(length, "0");
+}
+
+function parseDate(dateStr: string): number {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(dateStr);
+  if (!match) throw new Error(`Invalid calendar date "${dateStr}", expected YYYY-MM-DD`);
+  return Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+}
+
+function formatUtcDate(ms: number): string {
+  const d = new Date(ms);
+  return `${pad(d.getUTCFullYear(), 4)}-${pad(d.getUTCMonth() + 1)}-${pad(d.getUTCDate())}`;
+}
+
+/** Calendar date ("YYYY-MM-DD") of `instant` as seen in `timeZone`. */
+export function toZonedDateString(instant: Date, timeZone: string): string {
+  const { year, month, day } = getZonedParts(instant, timeZone);
+  return `${pad(year, 4)}-${pad(month)}-${pad(day)}`;
+}
+
+/** Hour of day (0–23) of `instant` as seen in `timeZone`. */
+export function getZonedHour(instant: Date, timeZone: string): number {
+  return getZonedParts(instant, timeZone).hour;
+}
+
+// How far the wall clock in `timeZone` is ahead of UTC at `instant`
+function getZoneOffsetMs(instant: number, timeZone: string): number {
+  const { year, month, day, hour, minute, second } = getZonedParts(new Date(instant), timeZone);
+  return Date.UTC(year, month - 1, day, hour, minute, second) - Math.floor(instant / 1000) * 1000;
+}
+
+/** Seconds from `instant` until the next midnight in `timeZone`, counting real time across DST shifts. */
+export function getSecondsUntilMidnight(instant: Date, timeZone: string): number {
+  const midnight = parseDate(addDays(toZonedDateString(instant, timeZone), 1));
+  // The offset at midnight can differ from the offset now; a second pass settles it
+  let next = midnight - getZoneOffsetMs(midnight, timeZone);
+  next = midnight - getZoneOffsetMs(next, timeZone);
+  return Math.round((next - instant.getTime()) / 1000);
+}
+
+export function addDays(dateStr: string, days: number): string {
+  return formatUtcDate(parseDate(dateStr) + days * MS_PER_DAY);
+}
+
+/** Whole calendar days from `from` to `to`; negative when `to` is earlier. */
+export function daysBetween(from: string, to: string): number {
+  return Math.round((parseDate(to) - parseDate(from)) / MS_PER_DAY);
+}
+
+/** Whole years from `from` to `to`, counting a year only once its anniversary is reached. */
+export function yearsBetween(from: string, to: string): number {
+  const [fy, fm, fd] = from.split("-").map(Number);
+  const ty = Number(to.slice(0, 4));
+  return ty - fy - (to < getYearlyDate(ty, fm, fd) ? 1 : 0);
+}
+
+export function isLeapYear(year: number): boolean {
+  return (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0;
+}
+
+/** The date a yearly month (1–12) and day falls on in `year`; Feb 29 moves to Feb 28 in non-leap years. */
+export function getYearlyDate(year: number, month: number, day: number): string {
+  const safeDay = month === 2 && day === 29 && !isLeapYear(year) ? 28 : day;
+  return `${pad(year, 4)}-${pad(month)}-${pad(safeDay)}`;
+}
+
+/** Number of full days that have passed since `startDate` in `timeZone`. */
+export function getDaysSince(startDate: string, timeZone: string, now: Date = new Date()): number {
+  return Math.max(0, daysBetween(startDate, toZonedDateString(now, timeZone)));
+}
+
+/** Human label for a calendar date, e.g. "Oct 27, 2017". */
+export function formatDateLabel(dateStr: string, locale = "en-US"): string {
+  return new Date(parseDate(dateStr)).toLocaleDateString(locale, {
+    timeZone: "UTC",
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
+/** Day of the week of a calendar date, 0 for Sunday. */
+export function getDayOfWeek(dateStr: string): number {
+  return new Date(parseDate(dateStr)).getUTCDay();
+}
+
+/** Month ("YYYY-MM") `months` after the month of `month`, which may also be a full date. */
+export function addMonths(month: string, months: number): string {
+  const [year, monthNumber] = month.split("-").map(Number);
+  const index = year * 12 + monthNumber - 1 + months;
+  return `${pad(Math.floor(index / 12), 4)}-${pad((index % 12) + 1)}`;
+}
+
+/** Every calendar date of a month ("YYYY-MM"), in order. */
+export function getMonthDates(month: string): string[] {
+  const first = `${month}-01`;
+  const length = daysBetween(first, `${addMonths(month, 1)}-01`);
+  return Array.from({ length }, (_, i) => addDays(first, i));
+}
+
+/** Human label for a month ("YYYY-MM"), e.g. "October 2017". */
+export function formatMonthLabel(month: string, locale = "en-US"): string {
+  return new Date(parseDate(`${month}-01`)).toLocaleDateString(locale, {
+    timeZone: "UTC",
+    month: "long",
+    year: "numeric",
+  });
+}
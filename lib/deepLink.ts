@@ -0,0 +1,37 @@
+import { FlowerData } from "./garden";
+
+// Query parameters that open the garden on a specific flower or hidden
+// message, e.g. `/?day=1234` or `/?message=valentine-2026`.
+export interface GardenLink {
+  day?: number;
+  message?: string;
+}
+
+export type SearchParams = Record<string, string | string[] | undefined>;
+
+function firstParam(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/** Reads a link from search params, dropping days and messages not yet planted. */
+export function parseGardenLink(params: SearchParams, flowers: FlowerData[]): GardenLink {
+  const link: GardenLink = {};
+  const day = Number(firstParam(params.day));
+  if (Number.isInteger(day) && day >= 1 && day <= flowers.length) {
+    link.day = day;
+  }
+  const message = firstParam(params.message);
+  if (message && flowers.some((f) => f.textSetId === message)) {
+    link.message = message;
+  }
+  return link;
+}
+
+/** Writes a link into `query`, clearing whichever parts are unset. */
+export function applyGardenLink(query: URLSearchParams, link: GardenLink): URLSearchParams {
+  if (link.day) query.set("day", String(link.day));
+  else query.delete("day");
+  if (link.message) query.set("message", link.message);
+  else query.delete("message");
+  return query;
+}
@@ -0,0 +1,13 @@
+import { describe, expect, it } from "vitest";
+import { findMissingFlowerAssets } from "./flowerAssets";
+import { FLOWER_SVGS, PLANTED_SVGS } from "./species";
+
+describe("flower assets", () => {
+  it("has a drawing in public/flowers for every registered svg", () => {
+    expect(findMissingFlowerAssets()).toEqual([]);
+  });
+
+  it("still registers every svg the garden was first planted from", () => {
+    expect(PLANTED_SVGS.filter((svg) => !FLOWER_SVGS.includes(svg))).toEqual([]);
+  });
+});
@@ -0,0 +1,27 @@
+import { existsSync } from "node:fs";
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { FLOWER_SVGS } from "./species";
+
+const FLOWERS_DIR = path.join(process.cwd(), "public", "flowers");
+
+let flowerAssets: Promise<Record<string, string>> | null = null;
+
+// Server-only: raw markup of every flower SVG in public/flowers, read once
+export function loadFlowerAssets(): Promise<Record<string, string>> {
+  flowerAssets ??= Promise.all(
+    FLOWER_SVGS.map(
+      async (svg) => [svg, await readFile(path.join(FLOWERS_DIR, svg), "utf8")] as const,
+    ),
+  ).then((entries) => Object.fromEntries(entries));
+  return flowerAssets;
+}
+
+/** Registry svgs with no file in public/flowers; empty when every species is drawn. */
+export function findMissingFlowerAssets(): string[] {
+  return FLOWER_SVGS.filter((svg) => !existsSync(path.join(FLOWERS_DIR, svg)));
+}
+
+export function toDataUri(svgMarkup: string): string {
+  return `data:image/svg+xml;base64,${Buffer.from(svgMarkup).toString("base64")}`;
+}
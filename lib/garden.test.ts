@@ -0,0 +1,77 @@
+import { createHash } from "node:crypto";
+import { describe, expect, it } from "vitest";
+import { createGardenGenerator, FlowerData, generateGarden } from "./garden";
+import { GARDEN_PROFILE, OCCASIONS, TEXT_SETS } from "./gardenConfig";
+import { MEMORIES } from "./memories";
+
+// Fingerprint of days 1–3,279 as they were planted before seasonal weighting existed
+const PLANTED_FINGERPRINT = "1a512e71314453a7217b49ec800548f0bb72f6c0a3ce70461fd994780beaedd6";
+
+const fingerprint = (flowers: FlowerData[]) =>
+  createHash("sha256")
+    .update(JSON.stringify(flowers.map((f) => [f.svg, f.x, f.y])))
+    .digest("hex");
+
+describe("createGardenGenerator", () => {
+  it("grows in steps to the garden as it was first planted", () => {
+    const generator = createGardenGenerator(GARDEN_PROFILE, TEXT_SETS, MEMORIES);
+    expect(generator.getFlowersUpTo(100)).toHaveLength(100);
+    expect(generator.getFlowersUpTo(3000)).toHaveLength(3000);
+    expect(fingerprint(generator.getFlowersUpTo(3279))).toBe(PLANTED_FINGERPRINT);
+  });
+
+  it("returns earlier days unchanged after growing further", () => {
+    const generator = createGardenGenerator(GARDEN_PROFILE, TEXT_SETS, MEMORIES, OCCASIONS);
+    const first = generator.getFlowersUpTo(50);
+    generator.getFlowersUpTo(500);
+    expect(generator.getFlowersUpTo(50)).toEqual(first);
+  });
+
+  it("looks up a flower by its 1-based day", () => {
+    const generator = createGardenGenerator(GARDEN_PROFILE, TEXT_SETS, MEMORIES, OCCASIONS);
+    expect(generator.getFlower(1)).toMatchObject({ id: 0, dayNumber: 1, date: GARDEN_PROFILE.startDate });
+    expect(generator.getFlower(0)).toBeUndefined();
+  });
+
+  it("rejects day numbers that are not whole", () => {
+    const generator = createGardenGenerator(GARDEN_PROFILE, TEXT_SETS, MEMORIES, OCCASIONS);
+    expect(generator.getFlower(1.5)).toBeUndefined();
+    expect(generator.getFlower(Number.NaN)).toBeUndefined();
+    expect(generator.getFlowersUpTo(0)).toEqual([]);
+  });
+});
+
+describe("seasonal species weighting", () => {
+  it("leaves every day before seasonalFrom and occasionsFrom as it was first planted", () => {
+    const flowers = generateGarden(GARDEN_PROFILE, 3279, TEXT_SETS, MEMORIES, OCCASIONS);
+    expect(flowers[flowers.length - 1].date < GARDEN_PROFILE.seasonalFrom!).toBe(true);
+    expect(flowers[flowers.length - 1].date < GARDEN_PROFILE.occasionsFrom!).toBe(true);
+    expect(fingerprint(flowers)).toBe(PLANTED_FINGERPRINT);
+    expect(flowers[1]).toMatchObject({ date: "2017-10-28", svg: "rose-earth.svg" });
+    expect(flowers[3]).toMatchObject({ date: "2017-10-30", svg: "forgetmenot-pastel.svg" });
+    // Valentine's Day and the first anniversary, planted before occasion flowers
+    expect(flowers[110]).toMatchObject({ date: "2018-02-14", svg: "rose-pastel.svg", occasionId: "valentines-day" });
+    expect(flowers[365]).toMatchObject({ date: "2018-10-27", svg: "lily-sunset.svg", occasionId: "anniversary" });
+  });
+
+  it("only changes occasion days from occasionsFrom on", () => {
+    const count = 3279 + 400;
+    const plain = generateGarden(GARDEN_PROFILE, count, TEXT_SETS, MEMORIES);
+    const withOccasions = generateGarden(GARDEN_PROFILE, count, TEXT_SETS, MEMORIES, OCCASIONS);
+    withOccasions.forEach((f, i) => {
+      if (!f.occasionId || f.date < GARDEN_PROFILE.occasionsFrom!) expect(f.svg).toBe(plain[i].svg);
+    });
+    expect(withOccasions.find((f) => f.date === "2027-02-14")?.svg).toMatch(/^tulip-/);
+    expect(withOccasions.find((f) => f.date === "2027-10-27")?.svg).toMatch(/^rose-/);
+  });
+
+  it("weights days from seasonalFrom on by season", () => {
+    const count = 3279 + 400;
+    const cutover = generateGarden(GARDEN_PROFILE, count, TEXT_SETS, MEMORIES);
+    const alwaysSeasonal = generateGarden({ ...GARDEN_PROFILE, seasonalFrom: undefined }, count, TEXT_SETS, MEMORIES);
+    cutover.forEach((f, i) => {
+      if (f.date >= GARDEN_PROFILE.seasonalFrom!) expect(f).toEqual(alwaysSeasonal[i]);
+    });
+    expect(fingerprint(alwaysSeasonal.slice(0, 3279))).not.toBe(PLANTED_FINGERPRINT);
+  });
+});
@@ -1,12 +1,18 @@
 import { mulberry32 } from "./random";
-import { FLOWER_SVGS } from "./flowers";
-import { TextSetConfig } from "./gardenConfig";
+import { addDays } from "./dates";
+import { GardenProfile, OccasionConfig, TextSetConfig } from "./gardenConfig";
+import { DayMemory } from "./memories";
+import { getActiveOccasion } from "./occasions";
+import { getSeason, Season } from "./seasons";
 import {
   buildTextMask,
   generateFlowerPositionsFromMask,
   assignSpeciesToPoints,
   SpawnPoint,
+  TextMaskResult,
 } from "./hiddenMessage";
+import { buildShapeMask } from "./shapeMask";
+import { FLOWER_SPECIES, FLOWER_SVGS, getFlowerSvg, getSeasonalWeight, PLANTED_SVGS } from "./species";
 
 export interface FlowerData {
   id: number;
@@ -17,8 +23,15 @@ export interface FlowerData {
   rotation: number;
   zIndex: number;
   dayNumber: number;
-  date: string; // ISO date string
+  date: string; // calendar date (YYYY-MM-DD) in the profile's timezone
   textSetId?: string;
+  memory?: Omit<DayMemory, "date">;
+  occasionId?: string;
+}
+
+// Stacking order used by every renderer: text flowers sit above the field
+export function getFlowerStackOrder(f: FlowerData): number {
+  return f.textSetId ? 200 + Math.round(f.zIndex * 10) : f.id;
 }
 
 export interface EmojiData {
@@ -57,9 +70,20 @@ export function generateEmojis(
   return items;
 }
 
-const COLS = 64;
-const ROWS = 56;
-const SEED = 20201027;
+// Pick which rotating emojis are visible this hour
+export function pickVisibleEmojis(
+  emojis: EmojiData[],
+  hour: number,
+  rotatingCount: number,
+): EmojiData[] {
+  const always = emojis.filter((e) => e.alwaysShow);
+  const rotating = emojis.filter((e) => !e.alwaysShow);
+  if (rotating.length <= rotatingCount) return emojis;
+  // Use hour as seed to pick rotatingCount emojis
+  const rng = mulberry32(hour * 9973 + 42);
+  const shuffled = [...rotating].sort(() => rng() - 0.5);
+  return [...always, ...shuffled.slice(0, rotatingCount)];
+}
 
 interface TextFlowerSlot {
   dayIndex: number; // which day this flower is planted
@@ -68,6 +92,14 @@ interface TextFlowerSlot {
   svg: string;
 }
 
+function buildTextSetMask(ts: TextSetConfig): TextMaskResult {
+  if (ts.shape) return buildShapeMask(ts.shape);
+  if (!ts.lines?.length) {
+    throw new Error(`Text set "${ts.id}" needs either \`lines\` or a \`shape\``);
+  }
+  return buildTextMask(ts.lines, ts.maskOptions);
+}
+
 function precomputeTextFlowers(
   textSets: TextSetConfig[],
   speciesVariants: Record<string, string[]>,
@@ -75,7 +107,7 @@ function precomputeTextFlowers(
   const slots: TextFlowerSlot[] = [];
 
   for (const ts of textSets) {
-    const maskResult = buildTextMask(ts.lines, ts.maskOptions);
+    const maskResult = buildTextSetMask(ts);
 
     const spawnPoints = generateFlowerPositionsFromMask(
       maskResult,
@@ -102,7 +134,7 @@ function precomputeTextFlowers(
 
     assignedPoints.forEach((point, index) => {
       const species = point.species ?? "rose";
-      const variants = speciesVariants[species] ?? FLOWER_SVGS.filter((s) => s.startsWith("rose-"));
+      const variants = speciesVariants[species] ?? speciesVariants.rose;
       const svg = variants[index % variants.length] ?? variants[0];
       slots.push({
         dayIndex: ts.startDay + index,
@@ -119,21 +151,45 @@ function precomputeTextFlowers(
 }
 
 function buildSpeciesVariants(): Record<string, string[]> {
-  const map: Record<string, string[]> = {};
-  FLOWER_SVGS.forEach((svg) => {
-    const [species] = svg.split("-");
-    if (!map[species]) map[species] = [];
-    map[species].push(svg);
-  });
-  return map;
+  return Object.fromEntries(
+    FLOWER_SPECIES.map((species) => [species.id, species.palettes.map((palette) => getFlowerSvg(species, palette))]),
+  );
 }
 
-export function generateGarden(
-  count: number,
+// Running weight totals over FLOWER_SVGS, so one rng value picks a weighted svg
+function buildSeasonalPicker(season: Season): (r: number) => string {
+  const cumulative: number[] = [];
+  let total = 0;
+  for (const species of FLOWER_SPECIES) {
+    const weight = getSeasonalWeight(species, season);
+    for (let i = 0; i < species.palettes.length; i++) {
+      total += weight;
+      cumulative.push(total);
+    }
+  }
+  return (r) => {
+    const target = r * total;
+    const index = cumulative.findIndex((sum) => target < sum);
+    return FLOWER_SVGS[index === -1 ? FLOWER_SVGS.length - 1 : index];
+  };
+}
+
+export interface GardenGenerator {
+  // Flowers for days 1..day, in planting order
+  getFlowersUpTo(day: number): FlowerData[];
+  // The flower planted on a 1-based day number
+  getFlower(day: number): FlowerData | undefined;
+}
+
+export function createGardenGenerator(
+  profile: GardenProfile,
   textSets: TextSetConfig[],
-): FlowerData[] {
-  const rng = mulberry32(SEED);
-  const totalCells = COLS * ROWS;
+  memories: DayMemory[] = [],
+  occasions: OccasionConfig[] = [],
+): GardenGenerator {
+  const { cols, rows } = profile.grid;
+  const rng = mulberry32(profile.seed);
+  const totalCells = cols * rows;
 
   // Create and shuffle cell indices (Fisher-Yates)
   const indices = Array.from({ length: totalCells }, (_, i) => i);
@@ -151,58 +207,137 @@ export function generateGarden(
     textSlotMap.set(slot.dayIndex, slot);
   }
 
+  const memoryMap = new Map<string, Omit<DayMemory, "date">>();
+  for (const { date, ...memory } of memories) {
+    memoryMap.set(date, memory);
+  }
+
+  // Occasion flowers replace the svg only after the rng has been consumed as
+  // usual, so every other day keeps its flower. Days before `occasionsFrom`
+  // were planted without them and stay that way.
+  const occasionSvg = (flower: OccasionConfig["flower"], date: string, dayIndex: number, svg: string) => {
+    if (!flower || (profile.occasionsFrom && date < profile.occasionsFrom)) return svg;
+    if (flower.svg) return flower.svg;
+    const variants = flower.species ? speciesVariants[flower.species] : undefined;
+    return variants?.length ? variants[dayIndex % variants.length] : svg;
+  };
+
+  // Species lean toward the season of each flower's own date, from `seasonalFrom` on
+  const seasonalPickers = new Map<Season, (r: number) => string>();
+  const pickSvg = (date: string, r: number) => {
+    if (profile.seasonalFrom && date < profile.seasonalFrom) {
+      return PLANTED_SVGS[Math.floor(r * PLANTED_SVGS.length)];
+    }
+    const season = getSeason(date, profile.hemisphere);
+    let picker = seasonalPickers.get(season);
+    if (!picker) {
+      picker = buildSeasonalPicker(season);
+      seasonalPickers.set(season, picker);
+    }
+    return picker(r);
+  };
+
   const flowers: FlowerData[] = [];
-  const cellW = 100 / COLS;
-  const cellH = 100 / ROWS;
+  const cellW = 100 / cols;
+  const cellH = 100 / rows;
   let gridCellUsed = 0; // tracks how many grid cells we've consumed
 
-  for (let i = 0; i < count; i++) {
-    const date = new Date("2017-10-27");
-    date.setDate(date.getDate() + i);
-    const dateStr = date.toISOString().split("T")[0];
-
-    const textSlot = textSlotMap.get(i);
-    if (textSlot) {
-      // Place a text flower at the pre-computed position
-      flowers.push({
-        id: i,
-        x: textSlot.point.x,
-        y: textSlot.point.y,
-        svg: textSlot.svg,
-        scale: 1.05,
-        rotation: 0,
-        zIndex: 200 + textSlot.point.row,
-        dayNumber: i + 1,
-        date: dateStr,
-        textSetId: textSlot.textSetId,
-      });
-    } else if (gridCellUsed < totalCells) {
-      // Place in shuffled grid cell
-      const cellIndex = indices[gridCellUsed];
-      gridCellUsed++;
-      const col = cellIndex % COLS;
-      const row = Math.floor(cellIndex / COLS);
-
-      const x = col * cellW + rng() * cellW;
-      const y = row * cellH + rng() * cellH;
-      const svg = FLOWER_SVGS[Math.floor(rng() * FLOWER_SVGS.length)];
-      const scale = 0.8 + rng() * 0.4;
-      const rotation = -15 + rng() * 30;
-      const zIndex = Math.floor(y);
-
-      flowers.push({ id: i, x, y, svg, scale, rotation, zIndex, dayNumber: i + 1, date: dateStr });
-    } else {
-      // Grid is full — place at random position (overlapping allowed)
-      const x = rng() * 100;
-      const y = rng() * 100;
-      const svg = FLOWER_SVGS[Math.floor(rng() * FLOWER_SVGS.length)];
-      const scale = 0.8 + rng() * 0.4;
-      const rotation = -15 + rng() * 30;
-      const zIndex = Math.floor(y);
-
-      flowers.push({ id: i, x, y, svg, scale, rotation, zIndex, dayNumber: i + 1, date: dateStr });
+  // The rng is consumed in day order, so flowers can only ever be appended
+  const extendTo = (count: number) => {
+    for (let i = flowers.length; i < count; i++) {
+      const dateStr = addDays(profile.startDate, i);
+      const occasion = getActiveOccasion(dateStr, occasions, profile);
+
+      const textSlot = textSlotMap.get(i);
+      if (textSlot) {
+        // Place a text flower at the pre-computed position
+        flowers.push({
+          id: i,
+          x: textSlot.point.x,
+          y: textSlot.point.y,
+          svg: textSlot.svg,
+          scale: 1.05,
+          rotation: 0,
+          zIndex: 200 + textSlot.point.row,
+          dayNumber: i + 1,
+          date: dateStr,
+          textSetId: textSlot.textSetId,
+          memory: memoryMap.get(dateStr),
+          occasionId: occasion?.id,
+        });
+      } else if (gridCellUsed < totalCells) {
+        // Place in shuffled grid cell
+        const cellIndex = indices[gridCellUsed];
+        gridCellUsed++;
+        const col = cellIndex % cols;
+        const row = Math.floor(cellIndex / cols);
+
+        const x = col * cellW + rng() * cellW;
+        const y = row * cellH + rng() * cellH;
+        const svg = occasionSvg(occasion?.flower, dateStr, i, pickSvg(dateStr, rng()));
+        const scale = 0.8 + rng() * 0.4;
+        const rotation = -15 + rng() * 30;
+        const zIndex = Math.floor(y);
+
+        flowers.push({
+          id: i, x, y, svg, scale, rotation, zIndex, dayNumber: i + 1, date: dateStr,
+          memory: memoryMap.get(dateStr), occasionId: occasion?.id,
+        });
+      } else {
+        // Grid is full — place at random position (overlapping allowed)
+        const x = rng() * 100;
+        const y = rng() * 100;
+        const svg = occasionSvg(occasion?.flower, dateStr, i, pickSvg(dateStr, rng()));
+        const scale = 0.8 + rng() * 0.4;
+        const rotation = -15 + rng() * 30;
+        const zIndex = Math.floor(y);
+
+        flowers.push({
+          id: i, x, y, svg, scale, rotation, zIndex, dayNumber: i + 1, date: dateStr,
+          memory: memoryMap.get(dateStr), occasionId: occasion?.id,
+        });
+      }
     }
+  };
+
+  return {
+    getFlowersUpTo(day) {
+      const count = Math.max(0, Math.floor(day));
+      extendTo(count);
+      return flowers.slice(0, count);
+    },
+    getFlower(day) {
+      if (!Number.isInteger(day) || day < 1) return undefined;
+      extendTo(day);
+      return flowers[day - 1];
+    },
+  };
+}
+
+const generatorCache = new Map<string, GardenGenerator>();
+
+// Shared generator per config, so repeated requests only compute new days
+export function getGardenGenerator(
+  profile: GardenProfile,
+  textSets: TextSetConfig[],
+  memories: DayMemory[] = [],
+  occasions: OccasionConfig[] = [],
+): GardenGenerator {
+  const key = JSON.stringify([profile, textSets, memories, occasions]);
+  let generator = generatorCache.get(key);
+  if (!generator) {
+    generator = createGardenGenerator(profile, textSets, memories, occasions);
+    generatorCache.set(key, generator);
   }
+  return generator;
+}
 
-  return flowers;
+export function generateGarden(
+  profile: GardenProfile,
+  count: number,
+  textSets: TextSetConfig[],
+  memories: DayMemory[] = [],
+  occasions: OccasionConfig[] = [],
+): FlowerData[] {
+  return createGardenGenerator(profile, textSets, memories, occasions).getFlowersUpTo(count);
 }
@@ -0,0 +1,48 @@
+import { getSecondsUntilMidnight } from "./dates";
+import { FlowerData } from "./garden";
+import { GardenStats } from "./stats";
+
+// Response bodies of the /api routes, for widgets and scripts reading the garden
+
+/** GET /api/garden: one page of flowers, oldest first. */
+export interface GardenPageResponse {
+  total: number; // flowers planted so far
+  upTo: number; // last day this listing covers
+  from: number; // day of the first flower in `flowers`
+  flowers: FlowerData[];
+  nextFrom: number | null; // `from` for the next page, or null on the last one
+}
+
+/** GET /api/flowers/[day] */
+export type FlowerResponse = FlowerData;
+
+/** GET /api/text-sets: hidden messages that have started to appear. */
+export interface TextSetSummary {
+  id: string;
+  label: string;
+  startDay: number;
+  planted: number;
+}
+
+/** GET /api/stats */
+export interface GardenStatsResponse extends GardenStats {
+  startDate: string;
+  today: string;
+}
+
+export interface ApiErrorResponse {
+  error: string;
+}
+
+/** The garden only changes at midnight, so responses stay fresh until then. */
+export function getDayCacheHeaders(now: Date, timeZone: string): HeadersInit {
+  const maxAge = getSecondsUntilMidnight(now, timeZone);
+  return { "Cache-Control": `public, max-age=${maxAge}, s-maxage=${maxAge}` };
+}
+
+/** A whole number within [min, max] from a query parameter, or `fallback` when missing or invalid. */
+export function parseDayParam(value: string | null, fallback: number, min: number, max: number): number {
+  const n = Number(value);
+  if (value === null || value === "" || !Number.isInteger(n)) return fallback;
+  return Math.min(max, Math.max(min, n));
+}
@@ -1,9 +1,50 @@
 import { TextMaskOptions } from './hiddenMessage';
+import { ShapeMaskSource } from './shapeMask';
+import { Hemisphere } from './seasons';
+import { GeoLocation } from './solar';
+import { AmbientEngine } from './soundscape';
+import { TimeOfDay } from './timeOfDay';
+import { WeatherConfig } from './weather';
+
+export interface GardenProfile {
+    title: string;
+    startDate: string; // ISO date (YYYY-MM-DD) of day 1
+    timezone: string; // IANA timezone the garden's days are counted in
+    hemisphere: Hemisphere; // decides which months are which season
+    // Where the garden is; the real sun then sets the time of day
+    location?: GeoLocation;
+    // Species lean toward the season from this date (YYYY-MM-DD) on; earlier
+    // days keep the even pick they were planted with, so they never change
+    seasonalFrom?: string;
+    // Occasion flowers replace the planted species from this date on; earlier
+    // occasion days keep the flower they already had
+    occasionsFrom?: string;
+    seed: number;
+    grid: {
+        cols: number;
+        rows: number;
+    };
+}
+
+export const GARDEN_PROFILE: GardenProfile = {
+    title: 'Our Garden',
+    startDate: '2017-10-27',
+    timezone: 'Asia/Bangkok',
+    hemisphere: 'north',
+    location: { latitude: 13.7563, longitude: 100.5018 },
+    seasonalFrom: '2026-10-19',
+    occasionsFrom: '2026-10-19',
+    seed: 20201027,
+    grid: { cols: 64, rows: 56 },
+};
 
 export interface TextSetConfig {
     id: string;
     label: string;
-    lines: string[];
+    // Pixel-font text to spell out. Ignored when `shape` is set.
+    lines?: string[];
+    // Draw a shape or ASCII-art grid instead of text
+    shape?: ShapeMaskSource;
     startDay: number;
     bounds: {
         width: number;
@@ -14,7 +55,7 @@ export interface TextSetConfig {
     density: number;
     jitter: number;
     seed: number;
-    maskOptions: TextMaskOptions;
+    maskOptions?: TextMaskOptions;
     lineSpecies: string[][];
 }
 
@@ -42,6 +83,74 @@ export const TEXT_SETS: TextSetConfig[] = [
     },
 ];
 
+export type OccasionDate =
+    // Every year on this month (1–12) and day; Feb 29 falls back to Feb 28
+    | { type: 'yearly'; month: number; day: number }
+    // Every year on the garden's start date, from the first anniversary on
+    | { type: 'anniversary' }
+    // A single calendar date (YYYY-MM-DD)
+    | { type: 'once'; date: string };
+
+export interface OccasionTheme {
+    grass?: Partial<Record<TimeOfDay, string>>;
+    grass2?: Partial<Record<TimeOfDay, string>>;
+    petalColors?: string[];
+    butterflyColors?: string[];
+}
+
+export interface OccasionConfig {
+    id: string;
+    label: string;
+    when: OccasionDate;
+    // Lasts this many days from the date (default 1)
+    durationDays?: number;
+    // Panel message; `{years}` is replaced with the number of full years since
+    // the start date and `{ordinal}` with the same number as "1st", "2nd", ...
+    message: string;
+    theme?: OccasionTheme;
+    // Force the species (or exact svg) of the flower planted on this day,
+    // for days from the profile's `occasionsFrom` on
+    flower?: { species?: string; svg?: string };
+}
+
+// Earlier entries win when several occasions fall on the same day
+export const OCCASIONS: OccasionConfig[] = [
+    {
+        id: 'anniversary',
+        label: 'Anniversary',
+        when: { type: 'anniversary' },
+        message: 'Happy {ordinal} anniversary',
+        theme: {
+            petalColors: ['#fda4af', '#fb7185', '#fecdd3'],
+        },
+        flower: { species: 'rose' },
+    },
+    {
+        id: 'valentines-day',
+        label: "Valentine's Day",
+        when: { type: 'yearly', month: 2, day: 14 },
+        message: "Happy Valentine's Day",
+        theme: {
+            petalColors: ['#f9a8d4', '#f472b6', '#fda4af'],
+            butterflyColors: ['#f9a8d4', '#fda4af', '#fecdd3'],
+        },
+        flower: { species: 'tulip' },
+    },
+    {
+        id: 'new-year',
+        label: 'New Year',
+        when: { type: 'yearly', month: 1, day: 1 },
+        message: 'Happy New Year',
+    },
+];
+
+// How the ambience is played: recorded loops or a generated soundscape.
+// `?audio=generative` overrides it.
+export const AMBIENT_ENGINE: AmbientEngine = 'loops';
+
+// Where the garden's weather comes from; `?weather=rain` overrides it
+export const WEATHER: WeatherConfig = { mode: 'simulated' };
+
 export const ALWAYS_EMOJIS = ['💎', '🍒'];
 export const ROTATING_EMOJIS = ['🏸', '🐶', '🚗', '🍌', '🍐', '🍑', '🍟', '🐱'];
 export const ROTATING_COUNT = 3;
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { FlowerData } from "./garden";
+import { getFlowerAgeHours, getGrowingFlowers, getGrowthStage } from "./growth";
+
+const TIME_ZONE = "Asia/Bangkok";
+
+// Local Bangkok time (UTC+7) on 2026-10-19, the day after the 2026-10-18 flower's date
+function onNextDay(time: string): Date {
+  return new Date(`2026-10-19T${time}:00+07:00`);
+}
+
+function flower(id: number, date: string): FlowerData {
+  return { id, x: 0, y: 0, svg: "", scale: 1, rotation: 0, zIndex: id, dayNumber: id, date };
+}
+
+describe("getGrowthStage", () => {
+  it.each([
+    ["00:05", "seedling"],
+    ["02:59", "seedling"],
+    ["03:00", "sprout"],
+    ["07:59", "sprout"],
+    ["08:00", "bud"],
+    ["13:59", "bud"],
+    ["14:00", "bloom"],
+    ["23:59", "bloom"],
+  ])("is the right stage at %s the day after the flower's date", (time, stage) => {
+    expect(getGrowthStage(getFlowerAgeHours("2026-10-18", onNextDay(time), TIME_ZONE))).toBe(stage);
+  });
+
+  it("counts whole days for older flowers", () => {
+    expect(getFlowerAgeHours("2026-10-16", onNextDay("00:30"), TIME_ZONE)).toBe(48);
+  });
+});
+
+describe("getGrowingFlowers", () => {
+  it("stops at the first flower in bloom", () => {
+    const flowers = [
+      flower(1, "2026-10-17"),
+      // Still a bud, but planted before a flower that has bloomed
+      flower(2, "2026-10-18"),
+      flower(3, "2026-10-16"),
+      flower(4, "2026-10-18"),
+    ];
+    expect(getGrowingFlowers(flowers, onNextDay("09:00"), TIME_ZONE)).toEqual({ 4: "bud" });
+  });
+
+  it("is empty once the newest flower has bloomed", () => {
+    expect(getGrowingFlowers([flower(1, "2026-10-18")], onNextDay("14:00"), TIME_ZONE)).toEqual({});
+  });
+});
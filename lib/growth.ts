@@ -0,0 +1,39 @@
+import { daysBetween, getZonedHour, toZonedDateString } from "./dates";
+import { FlowerData } from "./garden";
+
+// A day's flower is planted at the midnight that ends it, then grows through these stages
+export type GrowthStage = "seedling" | "sprout" | "bud" | "bloom";
+
+// Age in hours at which each stage begins
+export const GROWTH_STAGE_HOURS: Record<GrowthStage, number> = {
+  seedling: 0,
+  sprout: 3,
+  bud: 8,
+  bloom: 14,
+};
+
+const STAGES_BY_AGE: GrowthStage[] = ["bloom", "bud", "sprout", "seedling"];
+
+/** Whole hours since the flower for `date` was planted, at the instant `now` in `timeZone`. */
+export function getFlowerAgeHours(date: string, now: Date, timeZone: string): number {
+  const today = toZonedDateString(now, timeZone);
+  return (daysBetween(date, today) - 1) * 24 + getZonedHour(now, timeZone);
+}
+
+export function getGrowthStage(ageHours: number): GrowthStage {
+  return STAGES_BY_AGE.find((stage) => ageHours >= GROWTH_STAGE_HOURS[stage]) ?? "seedling";
+}
+
+/**
+ * Stages of the flowers still growing at `now`, by flower id. Flowers are in
+ * planting order, so only the newest few are checked; anything missing is in bloom.
+ */
+export function getGrowingFlowers(flowers: FlowerData[], now: Date, timeZone: string): Record<number, GrowthStage> {
+  const growing: Record<number, GrowthStage> = {};
+  for (let i = flowers.length - 1; i >= 0; i--) {
+    const stage = getGrowthStage(getFlowerAgeHours(flowers[i].date, now, timeZone));
+    if (stage === "bloom") break;
+    growing[flowers[i].id] = stage;
+  }
+  return growing;
+}
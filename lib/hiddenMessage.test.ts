@@ -0,0 +1,15 @@
+import { describe, expect, it } from "vitest";
+import { buildTextMask, findUnsupportedCharacters } from "./hiddenMessage";
+
+describe("buildTextMask", () => {
+  it("draws a heart typed with an emoji variation selector", () => {
+    expect(findUnsupportedCharacters(["I ❤️ U", "❤︎"])).toEqual([]);
+    expect(buildTextMask(["❤️"]).letters).toEqual(["♥"]);
+    expect(buildTextMask(["❤️"]).mask).toEqual(buildTextMask(["♥"]).mask);
+  });
+
+  it("still rejects characters without a glyph", () => {
+    expect(findUnsupportedCharacters(["HI 🌻"])).toEqual(["🌻"]);
+    expect(() => buildTextMask(["🌻"])).toThrow(/no pixel glyph for "🌻"/);
+  });
+});
@@ -1,21 +1,80 @@
 import { mulberry32 } from "./random";
+import { FLOWER_SPECIES } from "./species";
 
 const PIXEL_FONT: Record<string, string[]> = {
   " ": ["000000", "000000", "000000", "000000", "000000", "000000", "000000"],
   A: ["001100", "010010", "100001", "111111", "100001", "100001", "100001"],
   B: ["111110", "100001", "111110", "100001", "100001", "100001", "111110"],
   C: ["001111", "010000", "100000", "100000", "100000", "010000", "001111"],
+  D: ["111100", "100010", "100001", "100001", "100001", "100010", "111100"],
   E: ["111111", "100000", "111110", "100000", "100000", "100000", "111111"],
   F: ["111111", "100000", "111110", "100000", "100000", "100000", "100000"],
+  G: ["001111", "010000", "100000", "100111", "100001", "010001", "001111"],
   H: ["100001", "100001", "111111", "100001", "100001", "100001", "100001"],
+  I: ["111111", "001100", "001100", "001100", "001100", "001100", "111111"],
+  J: ["000111", "000010", "000010", "000010", "100010", "100010", "011100"],
+  K: ["100001", "100010", "100100", "111000", "100100", "100010", "100001"],
   L: ["100000", "100000", "100000", "100000", "100000", "100000", "111111"],
+  M: ["100001", "110011", "101101", "100001", "100001", "100001", "100001"],
+  N: ["100001", "110001", "101001", "100101", "100011", "100001", "100001"],
   O: ["011110", "100001", "100001", "100001", "100001", "100001", "011110"],
+  P: ["111110", "100001", "100001", "111110", "100000", "100000", "100000"],
+  Q: ["011110", "100001", "100001", "100001", "100101", "100010", "011101"],
   R: ["111110", "100001", "111110", "101000", "100100", "100010", "100001"],
+  S: ["011111", "100000", "100000", "011110", "000001", "000001", "111110"],
+  T: ["111111", "001100", "001100", "001100", "001100", "001100", "001100"],
   U: ["100001", "100001", "100001", "100001", "100001", "100001", "011110"],
   V: ["100001", "100001", "100001", "100001", "010010", "010010", "001100"],
+  W: ["100001", "100001", "100001", "100001", "101101", "110011", "100001"],
+  X: ["100001", "010010", "001100", "001100", "001100", "010010", "100001"],
   Y: ["100001", "010010", "001100", "001100", "001100", "001100", "001100"],
+  Z: ["111111", "000010", "000100", "001000", "010000", "100000", "111111"],
+  // Digits
+  "0": ["011110", "100011", "100101", "101001", "110001", "100001", "011110"],
+  "1": ["001100", "011100", "001100", "001100", "001100", "001100", "011110"],
+  "2": ["011110", "100001", "000001", "000110", "011000", "100000", "111111"],
+  "3": ["111110", "000001", "000001", "011110", "000001", "000001", "111110"],
+  "4": ["000110", "001010", "010010", "100010", "111111", "000010", "000010"],
+  "5": ["111111", "100000", "111110", "000001", "000001", "100001", "011110"],
+  "6": ["011110", "100000", "100000", "111110", "100001", "100001", "011110"],
+  "7": ["111111", "000001", "000010", "000100", "001000", "001000", "001000"],
+  "8": ["011110", "100001", "100001", "011110", "100001", "100001", "011110"],
+  "9": ["011110", "100001", "100001", "011111", "000001", "000001", "011110"],
+  // Punctuation
+  "!": ["001100", "001100", "001100", "001100", "001100", "000000", "001100"],
+  "?": ["011110", "100001", "000001", "000110", "001000", "000000", "001000"],
+  ".": ["000000", "000000", "000000", "000000", "000000", "001100", "001100"],
+  ",": ["000000", "000000", "000000", "000000", "001100", "001100", "011000"],
+  "'": ["001100", "001100", "011000", "000000", "000000", "000000", "000000"],
+  "-": ["000000", "000000", "000000", "111111", "000000", "000000", "000000"],
+  // Symbol glyphs
+  "♥": ["110011", "111111", "111111", "111111", "011110", "001100", "000000"],
+  "★": ["001100", "001100", "111111", "011110", "011110", "110011", "100001"],
 };
 
+// Alternative spellings that render with an existing glyph
+const GLYPH_ALIASES: Record<string, string> = {
+  "❤": "♥",
+  "*": "★",
+};
+
+// Emoji presentation selectors, as in the "❤️" phones type; they draw nothing
+const VARIATION_SELECTORS = /[\uFE0E\uFE0F]/g;
+
+function toGlyphKeys(line: string): string[] {
+  return Array.from(line.replace(VARIATION_SELECTORS, "").toUpperCase(), (ch) => GLYPH_ALIASES[ch] ?? ch);
+}
+
+export function findUnsupportedCharacters(lines: string[]): string[] {
+  const unsupported = new Set<string>();
+  for (const line of lines) {
+    for (const key of toGlyphKeys(line)) {
+      if (!PIXEL_FONT[key]) unsupported.add(key);
+    }
+  }
+  return Array.from(unsupported);
+}
+
 export interface TextMaskResult {
   mask: boolean[][];
   letterMap: number[][];
@@ -67,7 +126,13 @@ export function buildTextMask(
   const baseCharHeight = sampleGlyph.length;
   const scaledCharWidth = baseCharWidth * pixelScaleX;
   const scaledCharHeight = baseCharHeight * pixelScaleY;
-  const normalized = lines.map((line) => line.toUpperCase());
+  const unsupported = findUnsupportedCharacters(lines);
+  if (unsupported.length) {
+    throw new Error(
+      `buildTextMask: no pixel glyph for ${unsupported.map((ch) => JSON.stringify(ch)).join(", ")} in ${JSON.stringify(lines)}`,
+    );
+  }
+  const normalized = lines.map((line) => toGlyphKeys(line).join(""));
   const maxLineLength = Math.max(...normalized.map((line) => Math.max(line.length, 1)));
   const cols = maxLineLength * (scaledCharWidth + charSpacing) - charSpacing;
   const rows = normalized.length * scaledCharHeight + Math.max(normalized.length - 1, 0) * lineSpacing;
@@ -84,7 +149,7 @@ export function buildTextMask(
     let colCursor = Math.floor((cols - lineWidth) / 2);
     let charPosition = 0;
     for (const ch of line) {
-      const glyph = PIXEL_FONT[ch] ?? PIXEL_FONT[" "];
+      const glyph = PIXEL_FONT[ch];
       const currentIndex = ch === " " ? -1 : letterCounter++;
       if (currentIndex !== -1) {
         letters.push(ch);
@@ -164,15 +229,13 @@ export function generateFlowerPositionsFromMask(
   return points;
 }
 
-const DEFAULT_SPECIES = ["forgetmenot", "lily", "peony", "rose", "tulip", "sunflower"];
-
 export function assignSpeciesToPoints(
   points: SpawnPoint[],
   maskResult: TextMaskResult,
   enabledSpecies: string[],
   lineSpecies: string[][],
 ): SpawnPoint[] {
-  const fallbackPool = enabledSpecies.length ? enabledSpecies : DEFAULT_SPECIES;
+  const fallbackPool = enabledSpecies.length ? enabledSpecies : FLOWER_SPECIES.map((species) => species.id);
   if (!fallbackPool.length) return points;
 
   const letterCounters = new Map<number, number>();
@@ -0,0 +1,15 @@
+export interface DayMemory {
+    date: string; // ISO date string (YYYY-MM-DD) of the day the memory belongs to
+    title: string;
+    note: string;
+    tags?: string[];
+}
+
+export const MEMORIES: DayMemory[] = [
+    {
+        date: '2017-10-27',
+        title: 'Day one',
+        note: 'The day our garden started.',
+        tags: ['anniversary'],
+    },
+];
@@ -0,0 +1,83 @@
+import { mulberry32 } from "./random";
+
+export interface MoonPhase {
+  // Position in the lunar cycle: 0 new, 0.25 first quarter, 0.5 full, 0.75 last quarter
+  phase: number;
+  // Lit fraction of the disc (0–1)
+  illumination: number;
+}
+
+export interface Star {
+  id: number;
+  x: number; // % of the viewport
+  y: number;
+  size: number; // px
+  opacity: number;
+  twinkleDelay: number; // s
+}
+
+export interface ShootingStar {
+  id: number;
+  x: number;
+  y: number;
+  angle: number; // degrees below horizontal
+  length: number; // px
+  // Each star streaks once per `cycle` seconds, starting `delay` seconds in
+  cycle: number;
+  delay: number;
+}
+
+const SYNODIC_MONTH_DAYS = 29.530588853;
+// A known new moon: 2000-01-06 18:14 UTC
+const REFERENCE_NEW_MOON = Date.UTC(2000, 0, 6, 18, 14);
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+export function getMoonPhase(at: Date): MoonPhase {
+  const days = (at.getTime() - REFERENCE_NEW_MOON) / MS_PER_DAY;
+  const phase = (((days / SYNODIC_MONTH_DAYS) % 1) + 1) % 1;
+  return { phase, illumination: (1 - Math.cos(2 * Math.PI * phase)) / 2 };
+}
+
+/**
+ * SVG path of the lit part of a moon of radius `r` centred on the origin:
+ * the bright limb is a half circle and the terminator a half ellipse.
+ */
+export function getMoonPath(phase: number, r: number): string {
+  const waxing = phase < 0.5;
+  const terminatorRx = Math.abs(Math.cos(2 * Math.PI * phase)) * r;
+  // The terminator bulges toward the lit limb for crescents, away for gibbous
+  const crescent = phase < 0.25 || phase >= 0.75;
+  const limbSweep = waxing ? 1 : 0;
+  const terminatorSweep = crescent === waxing ? 0 : 1;
+  return (
+    `M 0 ${-r} A ${r} ${r} 0 0 ${limbSweep} 0 ${r} ` +
+    `A ${terminatorRx.toFixed(2)} ${r} 0 0 ${terminatorSweep} 0 ${-r} Z`
+  );
+}
+
+/** Stars for one night; the same seed always gives the same sky. */
+export function generateStarField(seed: number, count = 60): Star[] {
+  const rng = mulberry32(seed);
+  return Array.from({ length: count }, (_, id) => ({
+    id,
+    x: rng() * 100,
+    y: rng() * 65,
+    size: 1 + rng() * 2,
+    opacity: 0.3 + rng() * 0.6,
+    twinkleDelay: rng() * 3,
+  }));
+}
+
+/** A few shooting stars for one night, each repeating on its own slow cycle. */
+export function generateShootingStars(seed: number, count = 3): ShootingStar[] {
+  const rng = mulberry32(seed ^ 0x5f3759df);
+  return Array.from({ length: count }, (_, id) => ({
+    id,
+    x: 10 + rng() * 70,
+    y: 5 + rng() * 30,
+    angle: 15 + rng() * 30,
+    length: 80 + rng() * 80,
+    cycle: 25 + rng() * 35,
+    delay: rng() * 20,
+  }));
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { GARDEN_PROFILE, GardenProfile, OccasionConfig } from "./gardenConfig";
+import { getActiveOccasion } from "./occasions";
+
+const profile: GardenProfile = { ...GARDEN_PROFILE, startDate: "2017-10-27" };
+
+const OCCASIONS: OccasionConfig[] = [
+  { id: "anniversary", label: "Anniversary", when: { type: "anniversary" }, message: "Happy {ordinal} anniversary" },
+  { id: "valentines-day", label: "Valentine's Day", when: { type: "yearly", month: 2, day: 14 }, message: "Love", durationDays: 2 },
+  { id: "leap-day", label: "Leap day", when: { type: "yearly", month: 2, day: 29 }, message: "Leap" },
+  { id: "trip", label: "Trip", when: { type: "once", date: "2025-02-14" }, message: "Trip", durationDays: 3 },
+];
+
+const activeOn = (date: string, p = profile) => getActiveOccasion(date, OCCASIONS, p)?.id ?? null;
+
+describe("getActiveOccasion", () => {
+  it("matches a yearly date every year", () => {
+    expect(activeOn("2019-02-14")).toBe("valentines-day");
+    expect(activeOn("2030-02-14")).toBe("valentines-day");
+    expect(activeOn("2019-02-13")).toBeNull();
+  });
+
+  it("celebrates the anniversary from the first year on, not on the start date", () => {
+    expect(activeOn("2017-10-27")).toBeNull();
+    expect(getActiveOccasion("2018-10-27", OCCASIONS, profile)?.message).toBe("Happy 1st anniversary");
+    expect(getActiveOccasion("2026-10-27", OCCASIONS, profile)?.message).toBe("Happy 9th anniversary");
+  });
+
+  it("moves Feb 29 to Feb 28 in non-leap years", () => {
+    expect(activeOn("2024-02-29")).toBe("leap-day");
+    expect(activeOn("2024-02-28")).toBeNull();
+    expect(activeOn("2025-02-28")).toBe("leap-day");
+
+    const leapStart = { ...profile, startDate: "2016-02-29" };
+    expect(activeOn("2017-02-28", leapStart)).toBe("anniversary");
+    expect(activeOn("2020-02-29", leapStart)).toBe("anniversary");
+    expect(activeOn("2020-02-28", leapStart)).toBeNull();
+  });
+
+  it("counts the years of a Feb 29 anniversary celebrated on Feb 28", () => {
+    const leapStart = { ...profile, startDate: "2016-02-29" };
+    expect(getActiveOccasion("2017-02-28", OCCASIONS, leapStart)?.message).toBe("Happy 1st anniversary");
+    expect(getActiveOccasion("2019-02-28", OCCASIONS, leapStart)?.message).toBe("Happy 3rd anniversary");
+    expect(getActiveOccasion("2020-02-29", OCCASIONS, leapStart)?.message).toBe("Happy 4th anniversary");
+  });
+
+  it("lasts for durationDays from its date", () => {
+    expect(activeOn("2019-02-15")).toBe("valentines-day");
+    expect(activeOn("2019-02-16")).toBeNull();
+    expect(activeOn("2025-02-16")).toBe("trip");
+    expect(activeOn("2025-02-17")).toBeNull();
+  });
+
+  it("prefers the occasion listed first when several overlap", () => {
+    // Valentine's Day and the trip both run on 2025-02-14 and 15
+    expect(activeOn("2025-02-14")).toBe("valentines-day");
+    expect(activeOn("2025-02-15")).toBe("valentines-day");
+    const tripFirst = [OCCASIONS[3], OCCASIONS[1]];
+    expect(getActiveOccasion("2025-02-14", tripFirst, profile)?.id).toBe("trip");
+  });
+});
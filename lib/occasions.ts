@@ -0,0 +1,77 @@
+import { addDays, getYearlyDate, yearsBetween } from "./dates";
+import { GardenProfile, OccasionConfig, OccasionDate, OccasionTheme } from "./gardenConfig";
+
+export interface ActiveOccasion {
+  id: string;
+  label: string;
+  message: string;
+  theme?: OccasionTheme;
+  flower?: OccasionConfig["flower"];
+}
+
+function splitDate(date: string): [number, number, number] {
+  const [year, month, day] = date.split("-").map(Number);
+  return [year, month, day];
+}
+
+// Feb 29 dates are celebrated on Feb 28 in non-leap years
+function isYearlyMatch(date: string, month: number, day: number): boolean {
+  return date === getYearlyDate(splitDate(date)[0], month, day);
+}
+
+function startsOn(when: OccasionDate, date: string, profile: GardenProfile): boolean {
+  switch (when.type) {
+    case "yearly":
+      return isYearlyMatch(date, when.month, when.day);
+    case "anniversary": {
+      const [startYear, month, day] = splitDate(profile.startDate);
+      return splitDate(date)[0] > startYear && isYearlyMatch(date, month, day);
+    }
+    case "once":
+      return date === when.date;
+  }
+}
+
+function toOrdinal(n: number): string {
+  const suffixes = ["th", "st", "nd", "rd"];
+  const mod100 = n % 100;
+  return n + (suffixes[(mod100 - 20) % 10] ?? suffixes[mod100] ?? suffixes[0]);
+}
+
+function formatMessage(message: string, years: number): string {
+  return message.replace(/\{years\}/g, String(years)).replace(/\{ordinal\}/g, toOrdinal(years));
+}
+
+export function isOccasionOn(occasion: OccasionConfig, date: string, profile: GardenProfile): boolean {
+  const duration = Math.max(1, Math.floor(occasion.durationDays ?? 1));
+  for (let offset = 0; offset < duration; offset++) {
+    if (startsOn(occasion.when, addDays(date, -offset), profile)) return true;
+  }
+  return false;
+}
+
+/** Every occasion active on a calendar date (YYYY-MM-DD), in config order. */
+export function getActiveOccasions(
+  date: string,
+  occasions: OccasionConfig[],
+  profile: GardenProfile,
+): ActiveOccasion[] {
+  return occasions
+    .filter((occasion) => isOccasionOn(occasion, date, profile))
+    .map(({ id, label, message, theme, flower }) => ({
+      id,
+      label,
+      message: formatMessage(message, yearsBetween(profile.startDate, date)),
+      theme,
+      flower,
+    }));
+}
+
+/** The highest-priority occasion on a date, or null. */
+export function getActiveOccasion(
+  date: string,
+  occasions: OccasionConfig[],
+  profile: GardenProfile,
+): ActiveOccasion | null {
+  return getActiveOccasions(date, occasions, profile)[0] ?? null;
+}
@@ -0,0 +1,62 @@
+import { TimeOfDay } from './timeOfDay';
+
+export type Season = 'spring' | 'summer' | 'autumn' | 'winter';
+export type Hemisphere = 'north' | 'south';
+
+// Meteorological seasons; the southern hemisphere is six months ahead
+export function getSeason(date: string, hemisphere: Hemisphere): Season {
+    const month = Number(date.slice(5, 7));
+    const shifted = hemisphere === 'south' ? ((month + 5) % 12) + 1 : month;
+    if (shifted >= 3 && shifted < 6) return 'spring';
+    if (shifted >= 6 && shifted < 9) return 'summer';
+    if (shifted >= 9 && shifted < 12) return 'autumn';
+    return 'winter';
+}
+
+// Grass overrides per season; night and dusk keep their usual colours
+export const SEASON_GRASS_BG: Record<Season, Partial<Record<TimeOfDay, string>>> = {
+    spring: {},
+    summer: {
+        dawn: '#abc996',
+        morning: '#b6d69e',
+        day: '#bedca6',
+        sunset: '#c2d49a',
+    },
+    autumn: {
+        dawn: '#c6c49a',
+        morning: '#d2cf9e',
+        day: '#d9d4a4',
+        sunset: '#d4c08e',
+    },
+    winter: {
+        dawn: '#c9d3c4',
+        morning: '#d6dfd2',
+        day: '#e0e8dc',
+        sunset: '#d2d6c4',
+    },
+};
+
+export const SEASON_GRASS_BG2: Record<Season, Partial<Record<TimeOfDay, string>>> = {
+    spring: {},
+    summer: {
+        dawn: '#9cbd86',
+        morning: '#a6cc8e',
+        day: '#aed296',
+        sunset: '#b4c88a',
+    },
+    autumn: {
+        dawn: '#b8b284',
+        morning: '#c4bc8a',
+        day: '#cbc190',
+        sunset: '#c6ac7a',
+    },
+    winter: {
+        dawn: '#bac6b4',
+        morning: '#c8d3c2',
+        day: '#d2dccc',
+        sunset: '#c4c8b4',
+    },
+};
+
+// Autumn swaps falling petals for leaves in these colours
+export const AUTUMN_LEAF_COLORS = ['#d97706', '#ea580c', '#b45309', '#ca8a04'];
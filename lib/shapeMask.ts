@@ -0,0 +1,119 @@
+import { TextMaskResult } from "./hiddenMessage";
+
+export type ShapeMaskSource =
+  | {
+      // Hand-authored grid: "." and " " are empty, every other character is
+      // filled. Each distinct character becomes its own region, numbered in
+      // order of first appearance, and region N takes its species from
+      // `lineSpecies[N]`.
+      kind: "ascii";
+      rows: string[];
+    }
+  | {
+      kind: "circle" | "heart";
+      size: number; // mask resolution in cells per side
+    }
+  | {
+      kind: "star";
+      size: number;
+      points?: number;
+      innerRatio?: number;
+    };
+
+type Point = [number, number];
+
+export function buildShapeMask(source: ShapeMaskSource): TextMaskResult {
+  if (source.kind === "ascii") return buildAsciiMask(source.rows);
+
+  const size = Math.max(1, Math.floor(source.size));
+  const inside = shapeTest(source);
+  const mask: boolean[][] = [];
+  const letterMap: number[][] = [];
+  for (let row = 0; row < size; row++) {
+    mask.push([]);
+    letterMap.push([]);
+    for (let col = 0; col < size; col++) {
+      // Cell centre mapped to [-1, 1], y pointing up
+      const u = ((col + 0.5) / size) * 2 - 1;
+      const v = 1 - ((row + 0.5) / size) * 2;
+      const on = inside(u, v);
+      mask[row].push(on);
+      letterMap[row].push(on ? 0 : -1);
+    }
+  }
+
+  return {
+    mask,
+    letterMap,
+    letters: [source.kind],
+    letterMeta: [{ lineIndex: 0, letterIndex: 0, char: source.kind }],
+  };
+}
+
+function buildAsciiMask(rows: string[]): TextMaskResult {
+  const cols = Math.max(0, ...rows.map((line) => line.length));
+  const regionIndex = new Map<string, number>();
+  const letters: string[] = [];
+  const letterMeta: TextMaskResult["letterMeta"] = [];
+  const mask: boolean[][] = Array.from({ length: rows.length }, () => Array(cols).fill(false));
+  const letterMap: number[][] = Array.from({ length: rows.length }, () => Array(cols).fill(-1));
+
+  rows.forEach((line, row) => {
+    Array.from(line).forEach((ch, col) => {
+      if (ch === "." || ch === " ") return;
+      let index = regionIndex.get(ch);
+      if (index === undefined) {
+        index = letters.length;
+        regionIndex.set(ch, index);
+        letters.push(ch);
+        letterMeta.push({ lineIndex: index, letterIndex: 0, char: ch });
+      }
+      mask[row][col] = true;
+      letterMap[row][col] = index;
+    });
+  });
+
+  return { mask, letterMap, letters, letterMeta };
+}
+
+function shapeTest(source: Exclude<ShapeMaskSource, { kind: "ascii" }>): (u: number, v: number) => boolean {
+  switch (source.kind) {
+    case "circle":
+      return (u, v) => u * u + v * v <= 1;
+    case "heart":
+      // Implicit heart curve (x² + y² - 1)³ - x²y³ ≤ 0, scaled to fill the square
+      return (u, v) => {
+        const x = u * 1.2;
+        const y = v * 1.2 + 0.15;
+        const a = x * x + y * y - 1;
+        return a * a * a - x * x * y * y * y <= 0;
+      };
+    case "star": {
+      const polygon = starPolygon(source.points ?? 5, source.innerRatio ?? 0.5);
+      return (u, v) => pointInPolygon(u, v, polygon);
+    }
+  }
+}
+
+function starPolygon(points: number, innerRatio: number): Point[] {
+  const count = Math.max(2, Math.floor(points));
+  const vertices: Point[] = [];
+  for (let i = 0; i < count * 2; i++) {
+    const radius = i % 2 === 0 ? 1 : innerRatio;
+    const angle = Math.PI / 2 + (i * Math.PI) / count;
+    vertices.push([radius * Math.cos(angle), radius * Math.sin(angle)]);
+  }
+  return vertices;
+}
+
+function pointInPolygon(x: number, y: number, polygon: Point[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [xi, yi] = polygon[i];
+    const [xj, yj] = polygon[j];
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
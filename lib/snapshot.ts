@@ -0,0 +1,109 @@
+import { EmojiData, FlowerData, getFlowerStackOrder } from "./garden";
+import { Season, SEASON_GRASS_BG, SEASON_GRASS_BG2 } from "./seasons";
+import { GRASS_BG, GRASS_BG2, TINT_OVERLAY, TimeOfDay } from "./timeOfDay";
+
+export interface SnapshotOptions {
+  width: number;
+  height: number;
+  timeOfDay: TimeOfDay;
+  season?: Season;
+  title?: string;
+}
+
+// Brightness/saturation applied to flowers, same as the on-screen CSS filters
+const FLOWER_FILTERS: Partial<Record<TimeOfDay, { brightness: number; saturate: number }>> = {
+  night: { brightness: 0.45, saturate: 0.6 },
+  dusk: { brightness: 0.75, saturate: 1 },
+};
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function symbolId(svg: string): string {
+  return `flower-${svg.replace(/\.svg$/, "")}`;
+}
+
+// Turns a standalone flower SVG into a <symbol> that can be <use>d many times
+function toSymbol(svg: string, markup: string): string {
+  const match = /<svg\b([^>]*)>([\s\S]*)<\/svg>/.exec(markup);
+  if (!match) throw new Error(`Flower asset ${svg} is not an <svg> document`);
+  const viewBox = /viewBox="([^"]+)"/.exec(match[1])?.[1] ?? "0 0 150 150";
+  return `<symbol id="${symbolId(svg)}" viewBox="${viewBox}">${match[2]}</symbol>`;
+}
+
+/**
+ * Composes the garden into one standalone SVG. `flowerAssets` maps each
+ * flower filename (as in `FlowerData.svg`) to the contents of that file.
+ */
+export function renderGardenSvg(
+  flowers: FlowerData[],
+  emojis: EmojiData[],
+  flowerAssets: Record<string, string>,
+  { width, height, timeOfDay, season = "spring", title }: SnapshotOptions,
+): string {
+  const flowerSize = Math.max(12, 0.035 * Math.min(width, height));
+  const emojiSize = flowerSize * 0.85;
+  const usedSvgs = [...new Set(flowers.map((f) => f.svg))].filter((svg) => flowerAssets[svg]);
+  const filter = FLOWER_FILTERS[timeOfDay];
+  const grass = SEASON_GRASS_BG[season][timeOfDay] ?? GRASS_BG[timeOfDay];
+  const grass2 = SEASON_GRASS_BG2[season][timeOfDay] ?? GRASS_BG2[timeOfDay];
+
+  const items = [
+    ...emojis.map((emoji) => ({ zIndex: emoji.zIndex, emoji, flower: null })),
+    ...flowers.map((flower) => ({ zIndex: getFlowerStackOrder(flower), emoji: null, flower })),
+  ].sort((a, b) => a.zIndex - b.zIndex);
+
+  // Consecutive flowers share one filtered group; emojis are never dimmed
+  const body: string[] = [];
+  let run: string[] = [];
+  const flushRun = () => {
+    if (!run.length) return;
+    body.push(filter ? `<g filter="url(#time-of-day)">${run.join("")}</g>` : `<g>${run.join("")}</g>`);
+    run = [];
+  };
+  for (const item of items) {
+    const px = ((item.flower ?? item.emoji).x / 100) * width;
+    const py = ((item.flower ?? item.emoji).y / 100) * height;
+    if (item.flower) {
+      const f = item.flower;
+      if (!flowerAssets[f.svg]) continue;
+      const half = flowerSize / 2;
+      run.push(
+        `<use href="#${symbolId(f.svg)}" x="${-half}" y="${-half}" width="${flowerSize}" height="${flowerSize}" ` +
+          `transform="translate(${px.toFixed(2)} ${py.toFixed(2)}) rotate(${f.rotation.toFixed(2)}) scale(${f.scale.toFixed(3)})"/>`,
+      );
+    } else if (item.emoji) {
+      const e = item.emoji;
+      flushRun();
+      body.push(
+        `<text font-size="${emojiSize.toFixed(1)}" text-anchor="middle" dominant-baseline="central" opacity="0.85" ` +
+          `transform="translate(${px.toFixed(2)} ${py.toFixed(2)}) rotate(${e.rotation.toFixed(2)}) scale(${e.scale.toFixed(3)})">${escapeXml(e.emoji)}</text>`,
+      );
+    }
+  }
+  flushRun();
+
+  const defs = [
+    `<radialGradient id="grass" cx="30%" cy="40%" r="60%"><stop offset="0%" stop-color="${grass}"/><stop offset="100%" stop-color="${grass2}"/></radialGradient>`,
+    filter
+      ? `<filter id="time-of-day" color-interpolation-filters="sRGB"><feComponentTransfer><feFuncR type="linear" slope="${filter.brightness}"/><feFuncG type="linear" slope="${filter.brightness}"/><feFuncB type="linear" slope="${filter.brightness}"/></feComponentTransfer><feColorMatrix type="saturate" values="${filter.saturate}"/></filter>`
+      : "",
+    ...usedSvgs.map((svg) => toSymbol(svg, flowerAssets[svg])),
+  ];
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    title ? `<title>${escapeXml(title)}</title>` : "",
+    `<defs>${defs.join("")}</defs>`,
+    `<rect width="100%" height="100%" fill="${grass}"/>`,
+    `<rect width="100%" height="100%" fill="url(#grass)"/>`,
+    TINT_OVERLAY[timeOfDay] !== "transparent" ? `<rect width="100%" height="100%" fill="${TINT_OVERLAY[timeOfDay]}"/>` : "",
+    ...body,
+    `</svg>`,
+  ].join("");
+}
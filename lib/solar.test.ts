@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { GeoLocation, getSolarTimes } from "./solar";
+
+const LONDON: GeoLocation = { latitude: 51.5074, longitude: -0.1278 };
+const NEW_YORK: GeoLocation = { latitude: 40.7128, longitude: -74.006 };
+const TROMSO: GeoLocation = { latitude: 69.6492, longitude: 18.9553 };
+
+// Almanac times are rounded to the minute and ignore refraction changes, so allow a few
+const TOLERANCE_MS = 3 * 60 * 1000;
+
+function expectNear(actual: Date | null, expected: string) {
+  expect(actual).not.toBeNull();
+  expect(Math.abs(actual!.getTime() - Date.parse(expected))).toBeLessThan(TOLERANCE_MS);
+}
+
+describe("getSolarTimes", () => {
+  it("matches the almanac for London at midsummer", () => {
+    const times = getSolarTimes("2024-06-21", LONDON);
+    expectNear(times.sunrise, "2024-06-21T03:44:00Z");
+    expectNear(times.sunset, "2024-06-21T20:22:00Z");
+    expectNear(times.solarNoon, "2024-06-21T12:03:00Z");
+  });
+
+  it("matches the almanac for New York at both solstices", () => {
+    const summer = getSolarTimes("2024-06-21", NEW_YORK);
+    expectNear(summer.sunrise, "2024-06-21T09:25:00Z");
+    expectNear(summer.sunset, "2024-06-22T00:31:00Z");
+
+    const winter = getSolarTimes("2024-12-21", NEW_YORK);
+    expectNear(winter.sunrise, "2024-12-21T12:16:00Z");
+    expectNear(winter.sunset, "2024-12-21T21:32:00Z");
+  });
+
+  it("has no sunrise or sunset during polar day", () => {
+    const times = getSolarTimes("2024-06-21", TROMSO);
+    expect(times.sunrise).toBeNull();
+    expect(times.sunset).toBeNull();
+    expect(times.civilDawn).toBeNull();
+    expect(times.civilDusk).toBeNull();
+    expect(times.solarNoon).toBeInstanceOf(Date);
+  });
+
+  it("keeps civil twilight through polar night", () => {
+    const times = getSolarTimes("2024-12-21", TROMSO);
+    expect(times.sunrise).toBeNull();
+    expect(times.sunset).toBeNull();
+    expect(times.civilDawn).toBeInstanceOf(Date);
+    expect(times.civilDusk).toBeInstanceOf(Date);
+  });
+});
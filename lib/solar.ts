@@ -0,0 +1,104 @@
+// Sun position and rise/set times, after the NOAA / "sunrise equation"
+// approximations. Accurate to a minute or two outside the polar regions,
+// which is plenty for choosing the garden's light.
+
+export interface GeoLocation {
+  latitude: number; // degrees, north positive
+  longitude: number; // degrees, east positive
+}
+
+export interface SunPosition {
+  altitude: number; // degrees above the horizon
+  // Degrees from the meridian: negative before solar noon, positive after
+  hourAngle: number;
+  // Highest altitude the sun reaches on this day
+  noonAltitude: number;
+}
+
+export interface SolarTimes {
+  solarNoon: Date;
+  // null when the sun never crosses that altitude (polar day or night)
+  sunrise: Date | null;
+  sunset: Date | null;
+  civilDawn: Date | null;
+  civilDusk: Date | null;
+}
+
+const RAD = Math.PI / 180;
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+const J2000 = 2451545;
+const OBLIQUITY = 23.4397 * RAD;
+// Sunrise/sunset: upper limb on the horizon, allowing for refraction
+const SUNRISE_ALTITUDE = -0.833;
+const CIVIL_TWILIGHT_ALTITUDE = -6;
+
+function toJulian(ms: number): number {
+  return ms / MS_PER_DAY + 2440587.5;
+}
+
+function fromJulian(julian: number): Date {
+  return new Date((julian - 2440587.5) * MS_PER_DAY);
+}
+
+function normalizeDegrees(degrees: number): number {
+  return ((degrees % 360) + 360) % 360;
+}
+
+// Mean anomaly and ecliptic longitude of the sun, both in degrees
+function getSunCoordinates(daysSinceJ2000: number) {
+  const anomaly = normalizeDegrees(357.5291 + 0.98560028 * daysSinceJ2000);
+  const m = anomaly * RAD;
+  const center = 1.9148 * Math.sin(m) + 0.02 * Math.sin(2 * m) + 0.0003 * Math.sin(3 * m);
+  const eclipticLongitude = normalizeDegrees(anomaly + center + 180 + 102.9372);
+  const declination = Math.asin(Math.sin(eclipticLongitude * RAD) * Math.sin(OBLIQUITY));
+  return { anomaly, eclipticLongitude, declination };
+}
+
+export function getSunPosition(at: Date, { latitude, longitude }: GeoLocation): SunPosition {
+  const days = toJulian(at.getTime()) - J2000;
+  const { eclipticLongitude, declination } = getSunCoordinates(days);
+  const lambda = eclipticLongitude * RAD;
+  const rightAscension = Math.atan2(Math.cos(OBLIQUITY) * Math.sin(lambda), Math.cos(lambda)) / RAD;
+  const siderealTime = 280.16 + 360.9856235 * days;
+  const hourAngle = normalizeDegrees(siderealTime + longitude - rightAscension + 180) - 180;
+
+  const phi = latitude * RAD;
+  const altitude = Math.asin(
+    Math.sin(phi) * Math.sin(declination) + Math.cos(phi) * Math.cos(declination) * Math.cos(hourAngle * RAD),
+  ) / RAD;
+  return { altitude, hourAngle, noonAltitude: 90 - Math.abs(latitude - declination / RAD) };
+}
+
+/**
+ * Solar noon, sunrise, sunset and civil twilight for a calendar date
+ * (YYYY-MM-DD). The date is the local date at `location`, so the times
+ * returned are the ones around that day's solar noon.
+ */
+export function getSolarTimes(date: string, location: GeoLocation): SolarTimes {
+  const [year, month, day] = date.split("-").map(Number);
+  const noonJulian = toJulian(Date.UTC(year, month - 1, day, 12));
+  const cycle = Math.round(noonJulian - J2000 - 0.0009 + location.longitude / 360);
+  const approxNoon = cycle + 0.0009 - location.longitude / 360;
+  const { anomaly, eclipticLongitude, declination } = getSunCoordinates(approxNoon);
+  const transit =
+    J2000 + approxNoon + 0.0053 * Math.sin(anomaly * RAD) - 0.0069 * Math.sin(2 * eclipticLongitude * RAD);
+
+  const phi = location.latitude * RAD;
+  const crossing = (altitude: number) => {
+    const cosHourAngle =
+      (Math.sin(altitude * RAD) - Math.sin(phi) * Math.sin(declination)) / (Math.cos(phi) * Math.cos(declination));
+    if (cosHourAngle < -1 || cosHourAngle > 1) return null;
+    const offset = Math.acos(cosHourAngle) / RAD / 360;
+    return { rise: fromJulian(transit - offset), set: fromJulian(transit + offset) };
+  };
+
+  const sun = crossing(SUNRISE_ALTITUDE);
+  const civil = crossing(CIVIL_TWILIGHT_ALTITUDE);
+  return {
+    solarNoon: fromJulian(transit),
+    sunrise: sun?.rise ?? null,
+    sunset: sun?.set ?? null,
+    civilDawn: civil?.rise ?? null,
+    civilDusk: civil?.set ?? null,
+  };
+}
@@ -0,0 +1,205 @@
+import { mulberry32 } from './random';
+import { TimeOfDay } from './timeOfDay';
+
+// A garden soundscape synthesised with Web Audio: a wind bed, birds by day,
+// crickets by night and a soft note now and then for the flowers on show.
+// All timing comes from a seeded rng, so a given seed always plays the same.
+
+// `loops` plays the recorded MP3s; `generative` synthesises the garden live
+export type AmbientEngine = 'loops' | 'generative';
+
+export interface Soundscape {
+    // Cross-fades the layers for a time of day; `level` scales everything
+    setTimeOfDay(timeOfDay: TimeOfDay, level: number): void;
+    // How many flowers of each species are visible
+    setSpecies(counts: Record<string, number>): void;
+    stop(): void;
+}
+
+type Layer = 'wind' | 'birds' | 'crickets' | 'flowers';
+
+// Level of each layer per time of day, 0–1; a missing layer stays silent
+export type SoundscapeMix = Record<TimeOfDay, Partial<Record<Layer, number>>>;
+
+const LAYER_MIX: SoundscapeMix = {
+    night: { wind: 0.25, birds: 0, crickets: 1, flowers: 0.5 },
+    dawn: { wind: 0.3, birds: 1, crickets: 0.2, flowers: 0.7 },
+    morning: { wind: 0.35, birds: 0.8, crickets: 0, flowers: 0.8 },
+    day: { wind: 0.4, birds: 0.5, crickets: 0, flowers: 0.8 },
+    sunset: { wind: 0.35, birds: 0.3, crickets: 0.4, flowers: 0.7 },
+    dusk: { wind: 0.3, birds: 0.05, crickets: 0.8, flowers: 0.6 },
+};
+
+const LAYER_VOLUME: Record<Layer, number> = {
+    wind: 0.12,
+    birds: 0.08,
+    crickets: 0.03,
+    flowers: 0.06,
+};
+
+// Major pentatonic from A3; each species keeps one degree
+const PENTATONIC = [220, 247.5, 277.2, 330, 370.8, 440, 495, 554.4];
+const FADE_SECONDS = 2.2;
+
+function getSpeciesNote(species: string): number {
+    let hash = 0;
+    for (const char of species) hash = (hash * 31 + char.charCodeAt(0)) | 0;
+    return PENTATONIC[Math.abs(hash) % PENTATONIC.length];
+}
+
+function createNoiseBuffer(
+    context: AudioContext,
+    rng: () => number,
+): AudioBuffer {
+    const buffer = context.createBuffer(
+        1,
+        context.sampleRate * 4,
+        context.sampleRate,
+    );
+    const data = buffer.getChannelData(0);
+    for (let i = 0; i < data.length; i++) data[i] = rng() * 2 - 1;
+    return buffer;
+}
+
+export function createSoundscape(
+    context: AudioContext,
+    seed: number,
+    destination: AudioNode = context.destination,
+    mix: SoundscapeMix = LAYER_MIX,
+): Soundscape {
+    const timers = new Set<ReturnType<typeof setTimeout>>();
+    let species: [string, number][] = [];
+
+    const layers = {} as Record<Layer, GainNode>;
+    (Object.keys(LAYER_VOLUME) as Layer[]).forEach((layer) => {
+        const gain = context.createGain();
+        gain.gain.value = 0;
+        gain.connect(destination);
+        layers[layer] = gain;
+    });
+
+    // Wind: looping noise through a low-pass whose cutoff drifts slowly
+    const wind = context.createBufferSource();
+    wind.buffer = createNoiseBuffer(context, mulberry32(seed));
+    wind.loop = true;
+    const windFilter = context.createBiquadFilter();
+    windFilter.type = 'lowpass';
+    windFilter.frequency.value = 400;
+    const gust = context.createOscillator();
+    gust.frequency.value = 0.07;
+    const gustDepth = context.createGain();
+    gustDepth.gain.value = 250;
+    gust.connect(gustDepth).connect(windFilter.frequency);
+    wind.connect(windFilter).connect(layers.wind);
+    wind.start();
+    gust.start();
+
+    // Runs `play` over and over with gaps between `min` and `max` seconds.
+    // Each layer has its own rng so the layers never disturb each other.
+    let layerCount = 0;
+    const repeat = (
+        min: number,
+        max: number,
+        play: (at: number, rng: () => number) => void,
+    ) => {
+        const rng = mulberry32(seed + ++layerCount);
+        const schedule = () => {
+            const timer = setTimeout(
+                () => {
+                    timers.delete(timer);
+                    play(context.currentTime + 0.05, rng);
+                    schedule();
+                },
+                (min + rng() * (max - min)) * 1000,
+            );
+            timers.add(timer);
+        };
+        schedule();
+    };
+
+    const tone = (
+        layer: Layer,
+        type: OscillatorType,
+        at: number,
+        duration: number,
+        from: number,
+        to = from,
+    ) => {
+        const oscillator = context.createOscillator();
+        const envelope = context.createGain();
+        oscillator.type = type;
+        oscillator.frequency.setValueAtTime(from, at);
+        oscillator.frequency.exponentialRampToValueAtTime(to, at + duration);
+        envelope.gain.setValueAtTime(0, at);
+        envelope.gain.linearRampToValueAtTime(
+            1,
+            at + Math.min(0.02, duration / 4),
+        );
+        envelope.gain.exponentialRampToValueAtTime(0.0001, at + duration);
+        oscillator.connect(envelope).connect(layers[layer]);
+        oscillator.start(at);
+        oscillator.stop(at + duration);
+    };
+
+    // Birds: short phrases of rising chirps
+    repeat(1.5, 6, (at, rng) => {
+        const notes = 2 + Math.floor(rng() * 4);
+        const base = 2400 + rng() * 1600;
+        for (let i = 0; i < notes; i++) {
+            const start = at + i * (0.12 + rng() * 0.08);
+            tone(
+                'birds',
+                'sine',
+                start,
+                0.08 + rng() * 0.06,
+                base,
+                base * (1.2 + rng() * 0.3),
+            );
+        }
+    });
+
+    // Crickets: bursts of quick pulses at a steady pitch
+    repeat(0.4, 1.2, (at, rng) => {
+        const pitch = 4200 + rng() * 600;
+        const pulses = 3 + Math.floor(rng() * 3);
+        for (let i = 0; i < pulses; i++) {
+            tone('crickets', 'square', at + i * 0.045, 0.025, pitch);
+        }
+    });
+
+    // Flowers: a note for one visible species, picked by how many are showing
+    repeat(5, 12, (at, rng) => {
+        const total = species.reduce((sum, [, count]) => sum + count, 0);
+        if (!total) return;
+        let target = rng() * total;
+        const [name] =
+            species.find(([, count]) => (target -= count) < 0) ??
+            species[species.length - 1];
+        tone('flowers', 'triangle', at, 2.5, getSpeciesNote(name));
+    });
+
+    return {
+        setTimeOfDay(timeOfDay, level) {
+            const now = context.currentTime;
+            (Object.keys(layers) as Layer[]).forEach((layer) => {
+                const gain = layers[layer].gain;
+                gain.cancelScheduledValues(now);
+                gain.setValueAtTime(gain.value, now);
+                gain.linearRampToValueAtTime(
+                    (mix[timeOfDay][layer] ?? 0) * LAYER_VOLUME[layer] * level,
+                    now + FADE_SECONDS,
+                );
+            });
+        },
+        setSpecies(counts) {
+            species = Object.entries(counts).filter(([, count]) => count > 0);
+        },
+        stop() {
+            timers.forEach((timer) => clearTimeout(timer));
+            timers.clear();
+            wind.stop();
+            gust.stop();
+            Object.values(layers).forEach((gain) => gain.disconnect());
+        },
+    };
+}
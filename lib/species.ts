@@ -0,0 +1,141 @@
+import { Season } from "./seasons";
+
+export interface FlowerSpecies {
+  id: string;
+  name: string;
+  // Colour variants; each one is drawn by public/flowers/<id>-<palette>.svg
+  palettes: string[];
+  // What the flower stands for, shown in the tooltip
+  meaning: string;
+  // Relative chance of each of this species' svgs being planted
+  rarity: number;
+  // Multiplies `rarity` in these seasons (default 1)
+  seasons: Partial<Record<Season, number>>;
+}
+
+const ALL_PALETTES = ["earth", "forest", "ocean", "pastel", "sunset"];
+
+// Days from the profile's `seasonalFrom` on pick by running weight over this
+// order, so any change here (even appending) changes their flowers. Earlier
+// days pick from PLANTED_SVGS instead.
+export const FLOWER_SPECIES: FlowerSpecies[] = [
+  {
+    id: "forgetmenot",
+    name: "Forget-me-not",
+    palettes: ALL_PALETTES,
+    meaning: "true love",
+    rarity: 1,
+    seasons: { spring: 2, winter: 0.5 },
+  },
+  {
+    id: "lily",
+    name: "Lily",
+    palettes: ALL_PALETTES,
+    meaning: "devotion",
+    rarity: 1,
+    seasons: { summer: 2 },
+  },
+  {
+    id: "peony",
+    name: "Peony",
+    palettes: ALL_PALETTES,
+    meaning: "a happy life together",
+    rarity: 1,
+    seasons: { spring: 2 },
+  },
+  {
+    id: "rose",
+    name: "Rose",
+    palettes: ALL_PALETTES,
+    meaning: "love and passion",
+    rarity: 1,
+    seasons: { autumn: 2, winter: 2 },
+  },
+  {
+    // A single svg, so its seasonal weights are higher to keep up
+    id: "sunflower",
+    name: "Sunflower",
+    palettes: ["pastel"],
+    meaning: "adoration and loyalty",
+    rarity: 1,
+    seasons: { summer: 10, autumn: 4, winter: 0.25 },
+  },
+  {
+    id: "tulip",
+    name: "Tulip",
+    palettes: ALL_PALETTES,
+    meaning: "perfect love",
+    rarity: 1,
+    seasons: { spring: 3 },
+  },
+];
+
+export function getFlowerSvg(species: FlowerSpecies, palette: string): string {
+  return `${species.id}-${palette}.svg`;
+}
+
+export const FLOWER_SVGS: string[] = FLOWER_SPECIES.flatMap((species) =>
+  species.palettes.map((palette) => getFlowerSvg(species, palette)),
+);
+
+// The svgs the garden was first planted from, in their original order. Days
+// before `seasonalFrom` pick one by index, so this list must never change.
+export const PLANTED_SVGS: readonly string[] = [
+  "forgetmenot-earth.svg",
+  "forgetmenot-forest.svg",
+  "forgetmenot-ocean.svg",
+  "forgetmenot-pastel.svg",
+  "forgetmenot-sunset.svg",
+  "lily-earth.svg",
+  "lily-forest.svg",
+  "lily-ocean.svg",
+  "lily-pastel.svg",
+  "lily-sunset.svg",
+  "peony-earth.svg",
+  "peony-forest.svg",
+  "peony-ocean.svg",
+  "peony-pastel.svg",
+  "peony-sunset.svg",
+  "rose-earth.svg",
+  "rose-forest.svg",
+  "rose-ocean.svg",
+  "rose-pastel.svg",
+  "rose-sunset.svg",
+  "sunflower-pastel.svg",
+  "tulip-earth.svg",
+  "tulip-forest.svg",
+  "tulip-ocean.svg",
+  "tulip-pastel.svg",
+  "tulip-sunset.svg",
+];
+
+const speciesById = new Map(FLOWER_SPECIES.map((species) => [species.id, species]));
+
+const variantsBySvg = new Map(
+  FLOWER_SPECIES.flatMap((species) =>
+    species.palettes.map((palette) => [getFlowerSvg(species, palette), { species, palette }] as const),
+  ),
+);
+
+export function getSpecies(id: string): FlowerSpecies | undefined {
+  return speciesById.get(id);
+}
+
+export function getFlowerVariant(svg: string): { species: FlowerSpecies; palette: string } | undefined {
+  return variantsBySvg.get(svg);
+}
+
+/** Species id of a flower svg, or "" for svgs missing from the registry. */
+export function getSpeciesIdForSvg(svg: string): string {
+  return variantsBySvg.get(svg)?.species.id ?? "";
+}
+
+/** e.g. "Forget-me-not (ocean)". */
+export function describeFlower(svg: string): string {
+  const variant = variantsBySvg.get(svg);
+  return variant ? `${variant.species.name} (${variant.palette})` : svg.replace(/\.svg$/, "");
+}
+
+export function getSeasonalWeight(species: FlowerSpecies, season: Season): number {
+  return species.rarity * (species.seasons[season] ?? 1);
+}
@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import { FlowerData } from "./garden";
+import { getGridFill, getLongestStreaks, getUpcomingMilestones, Milestone } from "./stats";
+
+function flower(dayNumber: number, svg: string, textSetId?: string): FlowerData {
+  return { id: dayNumber - 1, x: 0, y: 0, svg, scale: 1, rotation: 0, zIndex: 0, dayNumber, date: "", textSetId };
+}
+
+const anniversaries = (milestones: Milestone[]) =>
+  milestones.filter((m) => m.kind === "anniversary").map(({ label, date, daysLeft }) => ({ label, date, daysLeft }));
+
+describe("getLongestStreaks", () => {
+  it("counts consecutive days of a species across palettes", () => {
+    const flowers = [
+      flower(1, "rose-earth.svg"),
+      flower(2, "rose-ocean.svg"),
+      flower(3, "rose-pastel.svg"),
+      flower(4, "tulip-earth.svg"),
+      flower(5, "rose-earth.svg"),
+    ];
+    expect(getLongestStreaks(flowers)).toEqual([
+      { species: "rose", length: 3, fromDay: 1, toDay: 3 },
+      { species: "tulip", length: 1, fromDay: 4, toDay: 4 },
+    ]);
+  });
+
+  it("starts a new run after a gap in the days", () => {
+    // Day 3 is missing, so days 1–2 and 4–6 are separate runs
+    const flowers = [
+      flower(1, "lily-earth.svg"),
+      flower(2, "lily-forest.svg"),
+      flower(4, "lily-ocean.svg"),
+      flower(5, "lily-pastel.svg"),
+      flower(6, "lily-sunset.svg"),
+    ];
+    expect(getLongestStreaks(flowers)).toEqual([{ species: "lily", length: 3, fromDay: 4, toDay: 6 }]);
+  });
+
+  it("skips svgs missing from the registry", () => {
+    expect(getLongestStreaks([flower(1, "unknown.svg")])).toEqual([]);
+  });
+});
+
+describe("getGridFill", () => {
+  it("counts flowers past the last free cell as overflow", () => {
+    const flowers = [
+      ...Array.from({ length: 6 }, (_, i) => flower(i + 1, "rose-earth.svg")),
+      flower(7, "tulip-earth.svg", "valentine-2026"),
+    ];
+    expect(getGridFill(flowers, { cols: 2, rows: 2 })).toEqual({ cells: 4, filled: 4, overflow: 2 });
+  });
+
+  it("has no overflow while cells are free", () => {
+    expect(getGridFill([flower(1, "rose-earth.svg")], { cols: 2, rows: 2 })).toEqual({
+      cells: 4,
+      filled: 1,
+      overflow: 0,
+    });
+  });
+});
+
+describe("getUpcomingMilestones", () => {
+  it("includes milestones reached today", () => {
+    // 3,287 days after 2017-10-27; day 3,500 is 213 days away
+    const milestones = getUpcomingMilestones("2017-10-27", "2026-10-27", 3287);
+    expect(milestones[0]).toEqual({
+      kind: "anniversary",
+      label: "9-year anniversary",
+      date: "2026-10-27",
+      daysLeft: 0,
+    });
+
+    const roundDay = getUpcomingMilestones("2017-10-27", "2027-05-27", 3500);
+    expect(roundDay[0]).toMatchObject({ kind: "day", label: "Day 3,500", date: "2027-05-27", daysLeft: 0 });
+  });
+
+  it("moves on to next year once this year's anniversary has passed", () => {
+    const milestones = getUpcomingMilestones("2017-10-27", "2026-11-01", 3292, 8);
+    expect(anniversaries(milestones)[0]).toEqual({
+      label: "10-year anniversary",
+      date: "2027-10-27",
+      daysLeft: 360,
+    });
+  });
+
+  it("celebrates a Feb 29 start on Feb 28 in non-leap years", () => {
+    const milestones = getUpcomingMilestones("2016-02-29", "2017-01-10", 316, 8);
+    expect(anniversaries(milestones).map((m) => m.date).slice(0, 4)).toEqual([
+      "2017-02-28",
+      "2018-02-28",
+      "2019-02-28",
+      "2020-02-29",
+    ]);
+  });
+
+  it("lists the next round days, soonest first", () => {
+    const milestones = getUpcomingMilestones("2017-10-27", "2026-10-19", 3279, 8);
+    expect(milestones.filter((m) => m.kind === "day").map((m) => [m.label, m.daysLeft])).toEqual([
+      ["Day 3,500", 221],
+      ["Day 4,000", 721],
+      ["Day 4,500", 1221],
+    ]);
+    expect(milestones.map((m) => m.daysLeft)).toEqual([...milestones.map((m) => m.daysLeft)].sort((a, b) => a - b));
+  });
+});
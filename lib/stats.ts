@@ -0,0 +1,148 @@
+import { addDays, daysBetween, getYearlyDate } from "./dates";
+import { FlowerData } from "./garden";
+import { GardenProfile, TextSetConfig } from "./gardenConfig";
+import { getFlowerVariant } from "./species";
+
+export interface SpeciesStreak {
+  species: string;
+  length: number; // consecutive days
+  fromDay: number;
+  toDay: number;
+}
+
+export interface GridFill {
+  cells: number;
+  filled: number;
+  // Flowers planted at random once every cell is taken
+  overflow: number;
+}
+
+export interface HiddenMessageCount {
+  id: string;
+  label: string;
+  flowers: number;
+}
+
+export interface Milestone {
+  kind: "day" | "anniversary";
+  label: string;
+  date: string; // when the milestone is reached
+  daysLeft: number; // 0 when it is today
+}
+
+export interface GardenStats {
+  total: number;
+  species: Record<string, number>;
+  palettes: Record<string, number>;
+  streaks: SpeciesStreak[];
+  grid: GridFill;
+  hiddenMessages: HiddenMessageCount[];
+  milestones: Milestone[];
+}
+
+// Round day numbers worth a countdown: 500, 1000, 1500…
+const DAY_MILESTONE_STEP = 500;
+
+function countBy(flowers: FlowerData[], key: (f: FlowerData) => string | undefined): Record<string, number> {
+  const counts: Record<string, number> = {};
+  flowers.forEach((f) => {
+    const value = key(f);
+    if (value) counts[value] = (counts[value] ?? 0) + 1;
+  });
+  return counts;
+}
+
+export function countBySpecies(flowers: FlowerData[]): Record<string, number> {
+  return countBy(flowers, (f) => getFlowerVariant(f.svg)?.species.id);
+}
+
+export function countByPalette(flowers: FlowerData[]): Record<string, number> {
+  return countBy(flowers, (f) => getFlowerVariant(f.svg)?.palette);
+}
+
+/** Longest run of consecutive days for each species, longest first. */
+export function getLongestStreaks(flowers: FlowerData[]): SpeciesStreak[] {
+  const longest = new Map<string, SpeciesStreak>();
+  const speciesOf = (f: FlowerData) => getFlowerVariant(f.svg)?.species.id ?? "";
+  let runStart = 0;
+  flowers.forEach((f, i) => {
+    const species = speciesOf(f);
+    const prev = flowers[i - 1];
+    if (prev && (speciesOf(prev) !== species || prev.dayNumber !== f.dayNumber - 1)) runStart = i;
+    const length = i - runStart + 1;
+    if (length > (longest.get(species)?.length ?? 0)) {
+      longest.set(species, { species, length, fromDay: flowers[runStart].dayNumber, toDay: f.dayNumber });
+    }
+  });
+  return Array.from(longest.values())
+    .filter((streak) => streak.species)
+    .sort((a, b) => b.length - a.length || a.fromDay - b.fromDay);
+}
+
+/** Hidden message flowers have their own spots; every other flower takes a grid cell until none are left. */
+export function getGridFill(flowers: FlowerData[], grid: GardenProfile["grid"]): GridFill {
+  const cells = grid.cols * grid.rows;
+  const gridFlowers = flowers.filter((f) => !f.textSetId).length;
+  return { cells, filled: Math.min(cells, gridFlowers), overflow: Math.max(0, gridFlowers - cells) };
+}
+
+/** Flowers planted so far in each hidden message that has started. */
+export function countHiddenMessageFlowers(flowers: FlowerData[], textSets: TextSetConfig[]): HiddenMessageCount[] {
+  const counts = countBy(flowers, (f) => f.textSetId);
+  return textSets
+    .filter((ts) => counts[ts.id])
+    .map((ts) => ({ id: ts.id, label: ts.label, flowers: counts[ts.id] }));
+}
+
+/**
+ * The next round day numbers and anniversaries, soonest first. `total` is
+ * the number of flowers planted by `today`; day N is planted N days after the start.
+ */
+export function getUpcomingMilestones(
+  startDate: string,
+  today: string,
+  total: number,
+  limit = 4,
+): Milestone[] {
+  const milestones: Milestone[] = [];
+  const nextDay = Math.ceil(Math.max(1, total) / DAY_MILESTONE_STEP) * DAY_MILESTONE_STEP;
+  for (let i = 0; i < limit; i++) {
+    const day = nextDay + i * DAY_MILESTONE_STEP;
+    milestones.push({
+      kind: "day",
+      label: `Day ${day.toLocaleString("en-US")}`,
+      date: addDays(today, day - total),
+      daysLeft: day - total,
+    });
+  }
+
+  const [startYear, startMonth, startDay] = startDate.split("-").map(Number);
+  let years = Math.max(1, Number(today.slice(0, 4)) - startYear);
+  while (milestones.filter((m) => m.kind === "anniversary").length < limit) {
+    const date = getYearlyDate(startYear + years, startMonth, startDay);
+    const daysLeft = daysBetween(today, date);
+    if (daysLeft >= 0) {
+      milestones.push({ kind: "anniversary", label: `${years}-year anniversary`, date, daysLeft });
+    }
+    years++;
+  }
+
+  return milestones.sort((a, b) => a.daysLeft - b.daysLeft).slice(0, limit);
+}
+
+export function computeGardenStats(
+  flowers: FlowerData[],
+  profile: GardenProfile,
+  textSets: TextSetConfig[],
+  today: string,
+): GardenStats {
+  return {
+    total: flowers.length,
+    species: countBySpecies(flowers),
+    palettes: countByPalette(flowers),
+    streaks: getLongestStreaks(flowers),
+    grid: getGridFill(flowers, profile.grid),
+    hiddenMessages: countHiddenMessageFlowers(flowers, textSets),
+    milestones: getUpcomingMilestones(profile.startDate, today, flowers.length),
+  };
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { getSolarTimes } from './solar';
+import { getTimeOfDayBlend, isTimeOfDay } from './timeOfDay';
+
+describe('isTimeOfDay', () => {
+    it('accepts every time of day', () => {
+        ['night', 'dawn', 'morning', 'day', 'sunset', 'dusk'].forEach(
+            (value) => expect(isTimeOfDay(value)).toBe(true),
+        );
+    });
+
+    it('rejects keys inherited from Object.prototype', () => {
+        ['toString', 'constructor', '__proto__', 'hasOwnProperty'].forEach(
+            (value) => expect(isTimeOfDay(value)).toBe(false),
+        );
+    });
+});
+
+describe('getTimeOfDayBlend', () => {
+    const london = { latitude: 51.5074, longitude: -0.1278 };
+    const sky = { timezone: 'Europe/London', location: london };
+    const times = getSolarTimes('2024-06-21', london);
+
+    it('uses fixed hour buckets without a location', () => {
+        expect(getTimeOfDayBlend(new Date('2024-06-21T12:00:00Z'), { timezone: 'Europe/London' })).toEqual({
+            timeOfDay: 'day',
+            from: 'day',
+            to: 'day',
+            t: 0,
+        });
+    });
+
+    it('blends from night toward dawn at civil dawn', () => {
+        // -6° sits 10° into the -16° → -4° rising keyframe span
+        const blend = getTimeOfDayBlend(times.civilDawn!, sky);
+        expect(blend).toMatchObject({ timeOfDay: 'dawn', from: 'night', to: 'dawn' });
+        expect(blend.t).toBeCloseTo(10 / 12, 1);
+    });
+
+    it('blends from dawn toward morning at sunrise', () => {
+        const blend = getTimeOfDayBlend(times.sunrise!, sky);
+        expect(blend).toMatchObject({ timeOfDay: 'dawn', from: 'dawn', to: 'morning' });
+        expect(blend.t).toBeCloseTo((-0.833 + 4) / 12, 1);
+    });
+
+    it('blends from dusk toward sunset at sunset', () => {
+        const blend = getTimeOfDayBlend(times.sunset!, sky);
+        expect(blend).toMatchObject({ timeOfDay: 'sunset', from: 'dusk', to: 'sunset' });
+        expect(blend.t).toBeCloseTo((-0.833 + 5) / 9, 1);
+    });
+
+    it('is full day at solar noon and night after dark', () => {
+        expect(getTimeOfDayBlend(times.solarNoon!, sky)).toMatchObject({ timeOfDay: 'day', t: 1 });
+        expect(getTimeOfDayBlend(new Date('2024-06-21T00:00:00Z'), sky).timeOfDay).toBe('night');
+    });
+});
@@ -0,0 +1,138 @@
+import { getZonedHour } from './dates';
+import { GeoLocation, getSunPosition } from './solar';
+
+export type TimeOfDay = 'night' | 'dawn' | 'morning' | 'day' | 'sunset' | 'dusk';
+
+// Fixed hour buckets, used when the garden has no location
+export function getTimeOfDay(hour: number): TimeOfDay {
+    if (hour >= 22 || hour < 5) return 'night';
+    if (hour >= 5 && hour < 7) return 'dawn';
+    if (hour >= 7 && hour < 10) return 'morning';
+    if (hour >= 10 && hour < 17) return 'day';
+    if (hour >= 17 && hour < 19) return 'sunset';
+    return 'dusk';
+}
+
+// Where and when the light is judged: the garden's timezone, plus its
+// location when the real sun should be used instead of fixed hours
+export interface SkyLocation {
+    timezone: string;
+    location?: GeoLocation;
+}
+
+// Sun altitudes (degrees) where each phase looks most like itself, in the
+// order they pass while the sun rises and sets
+const RISING_KEYFRAMES: [number, TimeOfDay][] = [
+    [-16, 'night'],
+    [-4, 'dawn'],
+    [8, 'morning'],
+    [30, 'day'],
+];
+const SETTING_KEYFRAMES: [number, TimeOfDay][] = [
+    [-16, 'night'],
+    [-5, 'dusk'],
+    [4, 'sunset'],
+    [20, 'day'],
+];
+
+// A point between two phases; `t` runs from 0 (all `from`) to 1 (all `to`)
+export interface TimeOfDayBlend {
+    timeOfDay: TimeOfDay;
+    from: TimeOfDay;
+    to: TimeOfDay;
+    t: number;
+}
+
+export function getTimeOfDayBlend(
+    at: Date,
+    { timezone, location }: SkyLocation,
+): TimeOfDayBlend {
+    if (!location) {
+        const timeOfDay = getTimeOfDay(getZonedHour(at, timezone));
+        return { timeOfDay, from: timeOfDay, to: timeOfDay, t: 0 };
+    }
+
+    const { altitude, hourAngle, noonAltitude } = getSunPosition(at, location);
+    const rising = hourAngle < 0;
+    // Low winter suns still count as day once they are most of the way up
+    const dayAltitude = Math.min(rising ? 20 : 10, noonAltitude * 0.6);
+    let timeOfDay: TimeOfDay;
+    if (rising) {
+        if (altitude < -12) timeOfDay = 'night';
+        else if (altitude < 2) timeOfDay = 'dawn';
+        else if (altitude < dayAltitude) timeOfDay = 'morning';
+        else timeOfDay = 'day';
+    } else {
+        if (altitude >= dayAltitude) timeOfDay = 'day';
+        else if (altitude >= -2) timeOfDay = 'sunset';
+        else if (altitude >= -12) timeOfDay = 'dusk';
+        else timeOfDay = 'night';
+    }
+
+    const keyframes = rising ? RISING_KEYFRAMES : SETTING_KEYFRAMES;
+    let i = 1;
+    while (i < keyframes.length - 1 && altitude > keyframes[i][0]) i++;
+    const [fromAltitude, from] = keyframes[i - 1];
+    const [toAltitude, to] = keyframes[i];
+    const t = (altitude - fromAltitude) / (toAltitude - fromAltitude);
+    return { timeOfDay, from, to, t: Math.min(1, Math.max(0, t)) };
+}
+
+export function getTimeOfDayAt(at: Date, sky: SkyLocation): TimeOfDay {
+    return getTimeOfDayBlend(at, sky).timeOfDay;
+}
+
+function mixHex(a: string, b: string, t: number): string {
+    const channels = [1, 3, 5].map((i) => {
+        const from = parseInt(a.slice(i, i + 2), 16);
+        const to = parseInt(b.slice(i, i + 2), 16);
+        return Math.round(from + (to - from) * t)
+            .toString(16)
+            .padStart(2, '0');
+    });
+    return `#${channels.join('')}`;
+}
+
+// Colour from a per-phase palette of #rrggbb values, mixed along a blend
+export function blendPaletteColor(
+    palette: Record<TimeOfDay, string>,
+    { from, to, t }: TimeOfDayBlend,
+): string {
+    return t === 0 || from === to
+        ? palette[from]
+        : t === 1
+          ? palette[to]
+          : mixHex(palette[from], palette[to], t);
+}
+
+export function isTimeOfDay(value: string): value is TimeOfDay {
+    return Object.hasOwn(GRASS_BG, value);
+}
+
+// Top-view: looking down at grass, pastel tones per time of day
+export const GRASS_BG: Record<TimeOfDay, string> = {
+    night: '#1e3a1e',
+    dawn: '#b8ccaa',
+    morning: '#c6d9b4',
+    day: '#d0e2be',
+    sunset: '#c8d4a8',
+    dusk: '#8aa878',
+};
+
+export const GRASS_BG2: Record<TimeOfDay, string> = {
+    night: '#162e16',
+    dawn: '#a8c09a',
+    morning: '#b8d0a4',
+    day: '#c0d8ae',
+    sunset: '#bcc89c',
+    dusk: '#7a9a6a',
+};
+
+export const TINT_OVERLAY: Record<TimeOfDay, string> = {
+    night: 'rgba(0, 0, 0, 0.25)',
+    dawn: 'transparent',
+    morning: 'transparent',
+    day: 'transparent',
+    sunset: 'rgba(124, 45, 18, 0.05)',
+    dusk: 'rgba(0, 0, 0, 0.1)',
+};
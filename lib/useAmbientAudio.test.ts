@@ -0,0 +1,196 @@
+// @vitest-environment jsdom
+import { act, renderHook } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { TimeOfDay } from './timeOfDay';
+import { WeatherKind } from './weather';
+
+// Just enough of HTMLAudioElement and the Web Audio graph for the mixer
+
+class FakeAudio {
+    volume = 0;
+    paused = true;
+    constructor(public src: string) {}
+    play() {
+        this.paused = false;
+        return Promise.resolve();
+    }
+    pause() {
+        this.paused = true;
+    }
+    setAttribute() {}
+    remove() {}
+}
+
+class FakeParam {
+    target: number | null = null;
+    constructor(public value = 0) {}
+    setValueAtTime() {}
+    cancelScheduledValues() {}
+    exponentialRampToValueAtTime() {}
+    linearRampToValueAtTime(value: number) {
+        this.target = value;
+    }
+}
+
+class FakeNode {
+    gain = new FakeParam();
+    frequency = new FakeParam();
+    Q = new FakeParam();
+    buffer: unknown = null;
+    loop = false;
+    type = '';
+    outputs: unknown[] = [];
+    constructor(context: FakeContext) {
+        context.nodes.push(this);
+    }
+    connect<T>(node: T): T {
+        this.outputs.push(node);
+        return node;
+    }
+    disconnect() {}
+    start() {}
+    stop() {}
+}
+
+class FakeContext {
+    nodes: FakeNode[] = [];
+    destination = {};
+    currentTime = 0;
+    sampleRate = 100;
+    state = 'running';
+    createGain = () => new FakeNode(this);
+    createBiquadFilter = () => new FakeNode(this);
+    createBufferSource = () => new FakeNode(this);
+    createOscillator = () => new FakeNode(this);
+    createBuffer = (_channels: number, length: number) => ({
+        getChannelData: () => new Float32Array(length),
+    });
+    resume = () => Promise.resolve();
+    close = () => Promise.resolve();
+
+    // Levels everything playing straight out is fading to, loudest first
+    get outputTargets() {
+        return this.nodes
+            .filter((node) => node.outputs.includes(this.destination))
+            .map((node) => node.gain.target ?? 0)
+            .filter((target) => target > 0)
+            .sort((a, b) => b - a);
+    }
+}
+
+async function renderMixer(
+    timeOfDay: TimeOfDay,
+    weather: WeatherKind = 'clear',
+) {
+    const { useAmbientAudio } = await import('./useAmbientAudio');
+    const audios: FakeAudio[] = [];
+    const context = new FakeContext();
+    const options = {
+        createAudio: (src: string) => {
+            const audio = new FakeAudio(src);
+            audios.push(audio);
+            return audio as unknown as HTMLAudioElement;
+        },
+        createContext: () => context as unknown as AudioContext,
+    };
+    const hook = renderHook(
+        (props: { timeOfDay: TimeOfDay; weather: WeatherKind }) =>
+            useAmbientAudio(props.timeOfDay, props.weather, options),
+        { initialProps: { timeOfDay, weather } },
+    );
+    const [day, night] = audios;
+    return { ...hook, day, night, context };
+}
+
+function saveSettings(settings: object) {
+    localStorage.setItem('our-garden:audio', JSON.stringify(settings));
+}
+
+function finishFade() {
+    act(() => {
+        vi.advanceTimersByTime(3000);
+    });
+}
+
+describe('useAmbientAudio', () => {
+    beforeEach(() => {
+        // Settings are cached per module, so each test loads it afresh
+        vi.resetModules();
+        localStorage.clear();
+        vi.useFakeTimers({
+            toFake: [
+                'setTimeout',
+                'clearTimeout',
+                'requestAnimationFrame',
+                'cancelAnimationFrame',
+                'performance',
+            ],
+        });
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('restores the saved mute and volume', async () => {
+        saveSettings({ muted: false, volume: 0.5 });
+        const { result, day, night } = await renderMixer('day');
+        expect(result.current).toMatchObject({ muted: false, volume: 0.5 });
+        expect(day.paused).toBe(false);
+        expect(night.paused).toBe(false);
+    });
+
+    it('saves mute and volume changes', async () => {
+        const { result, day } = await renderMixer('day');
+        const saved = () =>
+            JSON.parse(localStorage.getItem('our-garden:audio') ?? 'null');
+
+        act(() => result.current.setVolume(0.6));
+        expect(saved()).toEqual({ muted: false, volume: 0.6 });
+        expect(result.current).toMatchObject({ muted: false, volume: 0.6 });
+
+        act(() => result.current.setMuted(true));
+        expect(saved()).toEqual({ muted: true, volume: 0.6 });
+        expect(day.paused).toBe(true);
+
+        act(() => result.current.setVolume(0));
+        expect(saved()).toEqual({ muted: true, volume: 0 });
+    });
+
+    it('fades the loops to the time-of-day mix, scaled by volume', async () => {
+        saveSettings({ muted: false, volume: 0.5 });
+        const { day, night, rerender } = await renderMixer('dusk');
+        finishFade();
+        expect(day.volume).toBeCloseTo(0.05 * 0.5);
+        expect(night.volume).toBeCloseTo(0.32 * 0.5);
+
+        // Weather ducks the scene by half
+        rerender({ timeOfDay: 'day', weather: 'rain' });
+        finishFade();
+        expect(day.volume).toBeCloseTo(0.4 * 0.5 * 0.5);
+        expect(night.volume).toBeCloseTo(0);
+    });
+
+    it('fades everything out when muted', async () => {
+        saveSettings({ muted: true, volume: 0.8 });
+        const { day, night, context } = await renderMixer('dawn', 'rain');
+        finishFade();
+        expect(day.volume).toBe(0);
+        expect(night.volume).toBe(0);
+        expect(context.outputTargets).toEqual([]);
+    });
+
+    it('adds birds at dawn and crickets at sunset over the loops', async () => {
+        saveSettings({ muted: false, volume: 0.5 });
+        const { context, rerender } = await renderMixer('dawn');
+        // Bird layer at full level: its 0.08 volume, at half the master
+        expect(context.outputTargets).toEqual([0.04]);
+
+        rerender({ timeOfDay: 'sunset', weather: 'clear' });
+        // Cricket layer at full level: its 0.03 volume
+        expect(context.outputTargets).toEqual([0.015]);
+
+        rerender({ timeOfDay: 'day', weather: 'clear' });
+        expect(context.outputTargets).toEqual([]);
+    });
+});
@@ -1,65 +1,265 @@
 'use client';
 
-import { useEffect, useRef } from 'react';
-
-type TimeOfDay = 'night' | 'dawn' | 'morning' | 'day' | 'sunset' | 'dusk';
+import { useCallback, useEffect, useRef, useSyncExternalStore } from 'react';
+import {
+    AmbientEngine,
+    createSoundscape,
+    Soundscape,
+    SoundscapeMix,
+} from './soundscape';
+import { TimeOfDay } from './timeOfDay';
+import { WeatherKind } from './weather';
 type AmbientScene = 'day' | 'night';
 
-const SCENE_AUDIO: Record<
-    AmbientScene,
-    { src: string; maxVolume: number; label: string }
-> = {
+const SCENES: AmbientScene[] = ['day', 'night'];
+
+const SCENE_AUDIO: Record<AmbientScene, { src: string; label: string }> = {
     day: {
         src: '/sounds/freesound_community-garden-sunny-day-54490.mp3',
-        maxVolume: 0.4,
         label: 'Sunny garden ambience',
     },
     night: {
         src: '/sounds/freesound_community-night-ambience-17064.mp3',
-        maxVolume: 0.38,
         label: 'Night fireflies ambience',
     },
 };
 
-const NIGHT_SCENES: TimeOfDay[] = ['night', 'dusk', 'dawn'];
+// Level of each loop per time of day: birdsong comes up through dawn and
+// the crickets take over from sunset
+const TIME_OF_DAY_MIX: Record<TimeOfDay, Record<AmbientScene, number>> = {
+    night: { day: 0, night: 0.38 },
+    dawn: { day: 0.25, night: 0.15 },
+    morning: { day: 0.35, night: 0 },
+    day: { day: 0.4, night: 0 },
+    sunset: { day: 0.2, night: 0.2 },
+    dusk: { day: 0.05, night: 0.32 },
+};
+
+// Synthesised over the loops so each time of day has its own voice: a dawn
+// chorus thinning out through the morning, crickets tuning up at sunset
+const TIME_OF_DAY_ACCENTS: SoundscapeMix = {
+    night: {},
+    dawn: { birds: 1 },
+    morning: { birds: 0.4 },
+    day: {},
+    sunset: { crickets: 1 },
+    dusk: { crickets: 0.5 },
+};
+
+// Weather loops are filtered noise, synthesised so no extra files are needed
+const WEATHER_SOUNDS: Partial<
+    Record<
+        WeatherKind,
+        {
+            filter: BiquadFilterType;
+            frequency: number;
+            q: number;
+            maxVolume: number;
+        }
+    >
+> = {
+    rain: { filter: 'highpass', frequency: 1200, q: 0.7, maxVolume: 0.25 },
+    snow: { filter: 'lowpass', frequency: 500, q: 0.5, maxVolume: 0.06 },
+    fog: { filter: 'lowpass', frequency: 300, q: 0.5, maxVolume: 0.08 },
+    wind: { filter: 'bandpass', frequency: 600, q: 0.8, maxVolume: 0.2 },
+};
+// Scene ambience is quieter under any weather
+const WEATHER_SCENE_DUCK = 0.5;
+
+// Two bell partials for the flower chime (Hz)
+const CHIME_PARTIALS = [1318.5, 1975.5];
+const CHIME_VOLUME = 0.15;
+const CHIME_DURATION = 1.2;
+
 const FADE_DURATION = 2200;
 
-export function useAmbientAudio(timeOfDay: TimeOfDay) {
-    const scene: AmbientScene = NIGHT_SCENES.includes(timeOfDay)
-        ? 'night'
-        : 'day';
+// --- Settings, shared by every component and persisted ---
+
+export interface AudioSettings {
+    muted: boolean;
+    volume: number; // 0–1, applied on top of the mix
+}
+
+export const AUDIO_SETTINGS_KEY = 'our-garden:audio';
+const SERVER_SETTINGS: AudioSettings = { muted: true, volume: 1 };
+
+let cachedSettings: AudioSettings | null = null;
+const settingsListeners = new Set<() => void>();
+
+// Starts muted for visitors who prefer reduced motion, until they choose
+function loadAudioSettings(): AudioSettings {
+    const prefersReducedMotion = window.matchMedia?.(
+        '(prefers-reduced-motion: reduce)',
+    ).matches;
+    const defaults = { muted: !!prefersReducedMotion, volume: 1 };
+    try {
+        const stored = JSON.parse(
+            localStorage.getItem(AUDIO_SETTINGS_KEY) ?? 'null',
+        );
+        return {
+            muted:
+                typeof stored?.muted === 'boolean'
+                    ? stored.muted
+                    : defaults.muted,
+            volume:
+                typeof stored?.volume === 'number'
+                    ? Math.min(1, Math.max(0, stored.volume))
+                    : defaults.volume,
+        };
+    } catch {
+        return defaults;
+    }
+}
+
+function getSettingsSnapshot(): AudioSettings {
+    cachedSettings ??= loadAudioSettings();
+    return cachedSettings;
+}
+
+function subscribeSettings(listener: () => void) {
+    settingsListeners.add(listener);
+    return () => {
+        settingsListeners.delete(listener);
+    };
+}
+
+export function updateAudioSettings(patch: Partial<AudioSettings>) {
+    cachedSettings = { ...getSettingsSnapshot(), ...patch };
+    try {
+        localStorage.setItem(AUDIO_SETTINGS_KEY, JSON.stringify(cachedSettings));
+    } catch {
+        /* private mode or storage full: keep the in-memory value */
+    }
+    settingsListeners.forEach((listener) => listener());
+}
+
+export function useAudioSettings(): AudioSettings {
+    return useSyncExternalStore(
+        subscribeSettings,
+        getSettingsSnapshot,
+        () => SERVER_SETTINGS,
+    );
+}
+
+// --- Mixer ---
+
+// Injection points so the mixer can run against fakes outside a browser
+export interface AmbientAudioOptions {
+    createAudio?: (src: string) => HTMLAudioElement;
+    createContext?: () => AudioContext | null;
+    engine?: AmbientEngine;
+    // Seeds the generative engine's timing
+    seed?: number;
+    // Visible flowers per species, voiced by the generative engine
+    species?: Record<string, number>;
+}
+
+export interface AmbientAudio extends AudioSettings {
+    setMuted: (muted: boolean) => void;
+    setVolume: (volume: number) => void;
+    playChime: () => void;
+}
+
+export function useAmbientAudio(
+    timeOfDay: TimeOfDay,
+    weather: WeatherKind = 'clear',
+    {
+        createAudio = createAudioElement,
+        createContext = createAudioContext,
+        engine = 'loops',
+        seed = 0,
+        species,
+    }: AmbientAudioOptions = {},
+): AmbientAudio {
+    const { muted, volume } = useAudioSettings();
+    const master = muted ? 0 : volume;
     const audioMapRef = useRef<Record<AmbientScene, HTMLAudioElement | null>>({
         day: null,
         night: null,
     });
+    const graphRef = useRef<AudioGraph | null>(null);
+    const soundscapeRef = useRef<Soundscape | null>(null);
     const fadeRafRef = useRef<number | null>(null);
     const fadeStateRef = useRef<{
         start: number;
         from: Record<AmbientScene, number>;
         to: Record<AmbientScene, number>;
     } | null>(null);
+    const factoriesRef = useRef({ createAudio, createContext });
 
-    useEffect(() => {
-        if (typeof window === 'undefined') return;
-        const created: Record<AmbientScene, HTMLAudioElement> = {
-            day: createAudioElement('day'),
-            night: createAudioElement('night'),
+    const startFade = useCallback((targets: Record<AmbientScene, number>) => {
+        const audios = audioMapRef.current;
+        if (!audios.day && !audios.night) return;
+        const startVolumes: Record<AmbientScene, number> = {
+            day: audios.day?.volume ?? 0,
+            night: audios.night?.volume ?? 0,
+        };
+        fadeStateRef.current = {
+            start: performance.now(),
+            from: startVolumes,
+            to: targets,
         };
-        audioMapRef.current.day = created.day;
-        audioMapRef.current.night = created.night;
-
-        const tryPlayAll = () => {
-            Object.values(created).forEach((audio) => {
-                if (audio.paused) {
-                    void audio.play().catch(() => {
-                        /* ignore */
-                    });
-                }
+        if (fadeRafRef.current) {
+            cancelAnimationFrame(fadeRafRef.current);
+        }
+        const step = () => {
+            const state = fadeStateRef.current;
+            if (!state) return;
+            const elapsed = performance.now() - state.start;
+            const t = Math.min(1, elapsed / FADE_DURATION);
+            const eased = easeInOut(t);
+            SCENES.forEach((key) => {
+                const audio = audios[key];
+                if (!audio) return;
+                const from = state.from[key] ?? 0;
+                const to = state.to[key] ?? 0;
+                audio.volume = from + (to - from) * eased;
             });
+            if (t < 1) {
+                fadeRafRef.current = requestAnimationFrame(step);
+            }
         };
+        fadeRafRef.current = requestAnimationFrame(step);
+    }, []);
+
+    useEffect(() => {
+        if (typeof window === 'undefined') return;
+        const audioMap = audioMapRef.current;
+        const created: Partial<Record<AmbientScene, HTMLAudioElement>> = {};
+        if (engine === 'loops') {
+            SCENES.forEach((scene) => {
+                const audio = factoriesRef.current.createAudio(
+                    SCENE_AUDIO[scene].src,
+                );
+                audio.setAttribute('data-ambient-scene', scene);
+                audio.setAttribute('aria-label', SCENE_AUDIO[scene].label);
+                created[scene] = audio;
+                audioMap[scene] = audio;
+            });
+        }
+        const context = factoriesRef.current.createContext();
+        const graph = context ? createAudioGraph(context) : null;
+        graphRef.current = graph;
+        // The generative engine is the whole soundscape; the loops borrow
+        // its birds and crickets for the time-of-day accents
+        const soundscape = graph
+            ? createSoundscape(
+                  graph.context,
+                  seed,
+                  graph.context.destination,
+                  engine === 'generative' ? undefined : TIME_OF_DAY_ACCENTS,
+              )
+            : null;
+        soundscapeRef.current = soundscape;
 
+        // Autoplay is usually blocked until the first interaction
         const resumeHandler = () => {
-            tryPlayAll();
+            if (graph?.context.state === 'suspended') {
+                void graph.context.resume().catch(() => {
+                    /* ignore */
+                });
+            }
+            if (!getSettingsSnapshot().muted) playAll(created);
             detachResume();
         };
 
@@ -78,85 +278,175 @@ export function useAmbientAudio(timeOfDay: TimeOfDay) {
             });
         };
 
-        tryPlayAll();
+        if (!getSettingsSnapshot().muted) playAll(created);
         attachResume();
         return () => {
             detachResume();
-            Object.entries(audioMapRef.current).forEach(([key, audio]) => {
+            SCENES.forEach((scene) => {
+                const audio = audioMap[scene];
                 if (!audio) return;
                 audio.pause();
                 audio.remove();
-                audioMapRef.current[key as AmbientScene] = null;
+                audioMap[scene] = null;
             });
             if (fadeRafRef.current) {
                 cancelAnimationFrame(fadeRafRef.current);
                 fadeRafRef.current = null;
             }
+            soundscape?.stop();
+            soundscapeRef.current = null;
+            void graph?.context.close();
+            graphRef.current = null;
         };
-    }, []);
+    }, [engine, seed]);
 
+    // Muting pauses the loops outright; unmuting happens on a click, which
+    // also satisfies autoplay rules
     useEffect(() => {
-        const targetVolumes: Record<AmbientScene, number> = {
-            day: 0,
-            night: 0,
-        };
-        targetVolumes[scene] = SCENE_AUDIO[scene].maxVolume;
-        startFade(targetVolumes);
-        // eslint-disable-next-line react-hooks/exhaustive-deps
-    }, [scene]);
-
-    const startFade = (targets: Record<AmbientScene, number>) => {
         const audios = audioMapRef.current;
-        if (!audios.day && !audios.night) return;
-        const startVolumes: Record<AmbientScene, number> = {
-            day: audios.day?.volume ?? 0,
-            night: audios.night?.volume ?? 0,
-        };
-        fadeStateRef.current = {
-            start: performance.now(),
-            from: startVolumes,
-            to: targets,
-        };
-        if (fadeRafRef.current) {
-            cancelAnimationFrame(fadeRafRef.current);
+        if (muted) {
+            SCENES.forEach((scene) => audios[scene]?.pause());
+        } else {
+            playAll(audios);
         }
-        const step = () => {
-            const state = fadeStateRef.current;
-            if (!state) return;
-            const elapsed = performance.now() - state.start;
-            const t = Math.min(1, elapsed / FADE_DURATION);
-            const eased = easeInOut(t);
-            (['day', 'night'] as AmbientScene[]).forEach((key) => {
-                const audio = audios[key];
-                if (!audio) return;
-                const from = state.from[key] ?? 0;
-                const to = state.to[key] ?? 0;
-                audio.volume = from + (to - from) * eased;
+    }, [muted]);
+
+    useEffect(() => {
+        const duck = weather === 'clear' ? 1 : WEATHER_SCENE_DUCK;
+        soundscapeRef.current?.setTimeOfDay(timeOfDay, duck * master);
+        const mix = TIME_OF_DAY_MIX[timeOfDay];
+        startFade({
+            day: mix.day * duck * master,
+            night: mix.night * duck * master,
+        });
+    }, [timeOfDay, weather, master, startFade, engine, seed]);
+
+    useEffect(() => {
+        soundscapeRef.current?.setSpecies(species ?? {});
+    }, [species, engine, seed]);
+
+    useEffect(() => {
+        const graph = graphRef.current;
+        if (!graph) return;
+        const sound = WEATHER_SOUNDS[weather];
+        const now = graph.context.currentTime;
+        if (sound) {
+            graph.weatherFilter.type = sound.filter;
+            graph.weatherFilter.frequency.setValueAtTime(sound.frequency, now);
+            graph.weatherFilter.Q.setValueAtTime(sound.q, now);
+        }
+        const gain = graph.weatherGain.gain;
+        gain.cancelScheduledValues(now);
+        gain.setValueAtTime(gain.value, now);
+        gain.linearRampToValueAtTime(
+            (sound?.maxVolume ?? 0) * master,
+            now + FADE_DURATION / 1000,
+        );
+    }, [weather, master]);
+
+    const playChime = useCallback(() => {
+        const graph = graphRef.current;
+        if (!graph || master === 0) return;
+        if (graph.context.state === 'suspended') {
+            void graph.context.resume().catch(() => {
+                /* ignore */
             });
-            if (t < 1) {
-                fadeRafRef.current = requestAnimationFrame(step);
-            }
-        };
-        fadeRafRef.current = requestAnimationFrame(step);
+        }
+        const now = graph.context.currentTime;
+        CHIME_PARTIALS.forEach((frequency, i) => {
+            const oscillator = graph.context.createOscillator();
+            const gain = graph.context.createGain();
+            oscillator.type = 'sine';
+            oscillator.frequency.value = frequency;
+            const peak = (CHIME_VOLUME * master) / (i + 1);
+            gain.gain.setValueAtTime(0, now);
+            gain.gain.linearRampToValueAtTime(peak, now + 0.01);
+            gain.gain.exponentialRampToValueAtTime(
+                0.0001,
+                now + CHIME_DURATION,
+            );
+            oscillator.connect(gain).connect(graph.context.destination);
+            oscillator.start(now);
+            oscillator.stop(now + CHIME_DURATION);
+        });
+    }, [master]);
+
+    return {
+        muted,
+        volume,
+        setMuted: useCallback(
+            (next: boolean) => updateAudioSettings({ muted: next }),
+            [],
+        ),
+        setVolume: useCallback(
+            (next: number) =>
+                updateAudioSettings({
+                    volume: Math.min(1, Math.max(0, next)),
+                    muted: next === 0,
+                }),
+            [],
+        ),
+        playChime,
     };
+}
 
-    return null;
+function playAll(
+    audios: Partial<Record<AmbientScene, HTMLAudioElement | null>>,
+) {
+    SCENES.forEach((scene) => {
+        const audio = audios[scene];
+        if (audio?.paused) {
+            void audio.play().catch(() => {
+                /* ignore */
+            });
+        }
+    });
 }
 
-function createAudioElement(scene: AmbientScene): HTMLAudioElement {
-    const audio = new Audio(SCENE_AUDIO[scene].src);
+function createAudioElement(src: string): HTMLAudioElement {
+    const audio = new Audio(src);
     audio.loop = true;
     audio.preload = 'auto';
     audio.crossOrigin = 'anonymous';
     audio.setAttribute('playsinline', 'true');
-    audio.setAttribute('data-ambient-scene', scene);
     audio.volume = 0;
-    audio.setAttribute('aria-label', SCENE_AUDIO[scene].label);
     document.body?.appendChild(audio);
     audio.load();
     return audio;
 }
 
+function createAudioContext(): AudioContext | null {
+    return typeof AudioContext === 'undefined' ? null : new AudioContext();
+}
+
+interface AudioGraph {
+    context: AudioContext;
+    weatherFilter: BiquadFilterNode;
+    weatherGain: GainNode;
+}
+
+// A looping white-noise source shaped by a filter; silent until a weather
+// sound fades it in
+function createAudioGraph(context: AudioContext): AudioGraph {
+    const buffer = context.createBuffer(
+        1,
+        context.sampleRate * 2,
+        context.sampleRate,
+    );
+    const data = buffer.getChannelData(0);
+    for (let i = 0; i < data.length; i++) data[i] = Math.random() * 2 - 1;
+
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    source.loop = true;
+    const weatherFilter = context.createBiquadFilter();
+    const weatherGain = context.createGain();
+    weatherGain.gain.value = 0;
+    source.connect(weatherFilter).connect(weatherGain).connect(context.destination);
+    source.start();
+    return { context, weatherFilter, weatherGain };
+}
+
 function easeInOut(t: number) {
     return t < 0.5 ? 2 * t * t : -1 + (4 - 2 * t) * t;
 }
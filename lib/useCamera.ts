@@ -0,0 +1,217 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+// Camera over the garden, in viewport percentages: a world point at `p`%
+// lands on screen at `offset + zoom * p`%.
+export interface Camera {
+    zoom: number;
+    x: number;
+    y: number;
+}
+
+export const IDENTITY_CAMERA: Camera = { zoom: 1, x: 0, y: 0 };
+
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 8;
+const DRAG_THRESHOLD = 6; // px before a press becomes a pan
+const DOUBLE_TAP_MS = 300;
+const DOUBLE_TAP_DISTANCE = 30;
+const DOUBLE_TAP_ZOOM = 3;
+
+function clampCamera({ zoom, x, y }: Camera): Camera {
+    const z = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+    const minOffset = 100 * (1 - z);
+    return {
+        zoom: z,
+        x: Math.min(0, Math.max(minOffset, x)),
+        y: Math.min(0, Math.max(minOffset, y)),
+    };
+}
+
+// Zoom by `factor` keeping the screen point (in %) fixed
+function zoomAround(camera: Camera, factor: number, sx: number, sy: number) {
+    const zoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, camera.zoom * factor));
+    const ratio = zoom / camera.zoom;
+    return clampCamera({
+        zoom,
+        x: sx - (sx - camera.x) * ratio,
+        y: sy - (sy - camera.y) * ratio,
+    });
+}
+
+// Camera that centres the garden point (in %) at the given zoom
+export function focusCamera(x: number, y: number, zoom: number): Camera {
+    return clampCamera({ zoom, x: 50 - zoom * x, y: 50 - zoom * y });
+}
+
+export function worldToScreen(camera: Camera, x: number, y: number) {
+    return { x: camera.x + camera.zoom * x, y: camera.y + camera.zoom * y };
+}
+
+// Flowers grow slower than the world so dense patches separate when zooming
+export function getFlowerZoom(camera: Camera): number {
+    return 1 / Math.sqrt(camera.zoom);
+}
+
+export function useCamera(
+    onDoubleTap?: () => void,
+    initialCamera: Camera = IDENTITY_CAMERA,
+) {
+    const [camera, setCamera] = useState<Camera>(initialCamera);
+    const containerRef = useRef<HTMLDivElement | null>(null);
+    const pointersRef = useRef(new Map<number, { x: number; y: number }>());
+    const gestureRef = useRef({ moved: 0, lastTap: 0, lastTapX: 0, lastTapY: 0 });
+    const suppressClickRef = useRef(false);
+    const onDoubleTapRef = useRef(onDoubleTap);
+    useEffect(() => {
+        onDoubleTapRef.current = onDoubleTap;
+    }, [onDoubleTap]);
+
+    const toPercent = useCallback((clientX: number, clientY: number) => {
+        const rect = containerRef.current?.getBoundingClientRect();
+        if (!rect || !rect.width || !rect.height) return { x: 50, y: 50 };
+        return {
+            x: ((clientX - rect.left) / rect.width) * 100,
+            y: ((clientY - rect.top) / rect.height) * 100,
+        };
+    }, []);
+
+    const focusOn = useCallback((x: number, y: number, zoom: number) => {
+        setCamera(focusCamera(x, y, zoom));
+    }, []);
+
+    const reset = useCallback(() => setCamera(IDENTITY_CAMERA), []);
+
+    // Wheel zoom needs a non-passive listener to stop the page scrolling
+    useEffect(() => {
+        const el = containerRef.current;
+        if (!el) return;
+        const handleWheel = (event: WheelEvent) => {
+            event.preventDefault();
+            const { x, y } = toPercent(event.clientX, event.clientY);
+            const factor = Math.exp(-event.deltaY * 0.002);
+            setCamera((prev) => zoomAround(prev, factor, x, y));
+        };
+        el.addEventListener('wheel', handleWheel, { passive: false });
+        return () => el.removeEventListener('wheel', handleWheel);
+    }, [toPercent]);
+
+    const onPointerDown = useCallback((event: React.PointerEvent) => {
+        // Menus and panels keep their own gestures
+        if ((event.target as Element).closest?.('[data-camera-ignore]')) return;
+        pointersRef.current.set(event.pointerId, {
+            x: event.clientX,
+            y: event.clientY,
+        });
+        if (pointersRef.current.size === 1) gestureRef.current.moved = 0;
+    }, []);
+
+    const onPointerMove = useCallback(
+        (event: React.PointerEvent) => {
+            const pointers = pointersRef.current;
+            const prev = pointers.get(event.pointerId);
+            if (!prev) return;
+            const next = { x: event.clientX, y: event.clientY };
+            const rect = containerRef.current?.getBoundingClientRect();
+            if (!rect || !rect.width || !rect.height) return;
+
+            if (pointers.size === 1) {
+                gestureRef.current.moved += Math.hypot(
+                    next.x - prev.x,
+                    next.y - prev.y,
+                );
+                pointers.set(event.pointerId, next);
+                if (gestureRef.current.moved < DRAG_THRESHOLD) return;
+                const dx = ((next.x - prev.x) / rect.width) * 100;
+                const dy = ((next.y - prev.y) / rect.height) * 100;
+                setCamera((cam) =>
+                    clampCamera({ ...cam, x: cam.x + dx, y: cam.y + dy }),
+                );
+                return;
+            }
+
+            // Pinch: scale by the change in finger distance around the midpoint
+            const other = Array.from(pointers.entries()).find(
+                ([id]) => id !== event.pointerId,
+            )?.[1];
+            pointers.set(event.pointerId, next);
+            if (!other) return;
+            gestureRef.current.moved = DRAG_THRESHOLD;
+            const before = Math.hypot(prev.x - other.x, prev.y - other.y);
+            const after = Math.hypot(next.x - other.x, next.y - other.y);
+            if (!before) return;
+            const mid = toPercent(
+                (next.x + other.x) / 2,
+                (next.y + other.y) / 2,
+            );
+            const dx = ((next.x - prev.x) / 2 / rect.width) * 100;
+            const dy = ((next.y - prev.y) / 2 / rect.height) * 100;
+            setCamera((cam) => {
+                const zoomed = zoomAround(cam, after / before, mid.x, mid.y);
+                return clampCamera({
+                    ...zoomed,
+                    x: zoomed.x + dx,
+                    y: zoomed.y + dy,
+                });
+            });
+        },
+        [toPercent],
+    );
+
+    const onPointerUp = useCallback(
+        (event: React.PointerEvent) => {
+            const pointers = pointersRef.current;
+            if (!pointers.delete(event.pointerId)) return;
+            if (pointers.size > 0) return;
+            const gesture = gestureRef.current;
+            if (gesture.moved >= DRAG_THRESHOLD) {
+                suppressClickRef.current = true;
+                return;
+            }
+            const now = performance.now();
+            const isDoubleTap =
+                now - gesture.lastTap < DOUBLE_TAP_MS &&
+                Math.hypot(
+                    event.clientX - gesture.lastTapX,
+                    event.clientY - gesture.lastTapY,
+                ) < DOUBLE_TAP_DISTANCE;
+            gesture.lastTap = isDoubleTap ? 0 : now;
+            gesture.lastTapX = event.clientX;
+            gesture.lastTapY = event.clientY;
+            if (isDoubleTap) {
+                // Zoom in where tapped, or back out when already zoomed
+                const { x, y } = toPercent(event.clientX, event.clientY);
+                setCamera((cam) =>
+                    cam.zoom > 1
+                        ? IDENTITY_CAMERA
+                        : zoomAround(cam, DOUBLE_TAP_ZOOM / cam.zoom, x, y),
+                );
+                onDoubleTapRef.current?.();
+            }
+        },
+        [toPercent],
+    );
+
+    // Swallow the click that ends a pan so it doesn't select a flower
+    const onClickCapture = useCallback((event: React.MouseEvent) => {
+        if (!suppressClickRef.current) return;
+        suppressClickRef.current = false;
+        event.stopPropagation();
+        event.preventDefault();
+    }, []);
+
+    return {
+        camera,
+        containerRef,
+        focusOn,
+        reset,
+        handlers: {
+            onPointerDown,
+            onPointerMove,
+            onPointerUp,
+            onPointerCancel: onPointerUp,
+            onClickCapture,
+        },
+    };
+}
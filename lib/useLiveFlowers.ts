@@ -0,0 +1,61 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { getDaysSince } from './dates';
+import { FlowerData } from './garden';
+import { FlowerResponse } from './gardenApi';
+import { GardenProfile } from './gardenConfig';
+
+const CHECK_MS = 60 * 1000;
+
+async function fetchFlower(day: number): Promise<FlowerResponse> {
+    const response = await fetch(`/api/flowers/${day}`);
+    if (!response.ok) throw new Error(`Day ${day}: ${response.status}`);
+    return response.json();
+}
+
+// Plants each new day's flower once midnight passes in the garden's
+// timezone, so a page left open overnight keeps growing
+export function useLiveFlowers(
+    initialFlowers: FlowerData[],
+    profile: GardenProfile,
+): FlowerData[] {
+    const [flowers, setFlowers] = useState(initialFlowers);
+    const planted = flowers.length;
+
+    useEffect(() => {
+        let cancelled = false;
+        let isFetching = false;
+        const check = () => {
+            const count = getDaysSince(profile.startDate, profile.timezone);
+            if (isFetching || count <= planted) return;
+            isFetching = true;
+            // Several days at once if the device slept through a few midnights
+            const days = Array.from(
+                { length: count - planted },
+                (_, i) => planted + i + 1,
+            );
+            Promise.all(days.map(fetchFlower))
+                .then((next) => {
+                    if (cancelled) return;
+                    setFlowers((prev) =>
+                        prev.length === planted ? [...prev, ...next] : prev,
+                    );
+                })
+                .catch(() => {
+                    /* try again on the next check */
+                })
+                .finally(() => {
+                    isFetching = false;
+                });
+        };
+        check();
+        const id = setInterval(check, CHECK_MS);
+        return () => {
+            cancelled = true;
+            clearInterval(id);
+        };
+    }, [planted, profile]);
+
+    return flowers;
+}
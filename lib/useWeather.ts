@@ -0,0 +1,33 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { CLEAR_WEATHER, WeatherProvider, WeatherState } from './weather';
+
+const REFRESH_MS = 10 * 60 * 1000;
+
+// Polls the provider; starts clear until the first reading arrives
+export function useWeather(provider: WeatherProvider): WeatherState {
+    const [weather, setWeather] = useState<WeatherState>(CLEAR_WEATHER);
+
+    useEffect(() => {
+        let cancelled = false;
+        const update = () => {
+            provider
+                .getWeather(new Date())
+                .then((next) => {
+                    if (!cancelled) setWeather(next);
+                })
+                .catch(() => {
+                    /* keep the last reading */
+                });
+        };
+        update();
+        const id = setInterval(update, REFRESH_MS);
+        return () => {
+            cancelled = true;
+            clearInterval(id);
+        };
+    }, [provider]);
+
+    return weather;
+}
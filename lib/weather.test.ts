@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { simulateWeather, WeatherLocation, WeatherKind } from "./weather";
+
+const BANGKOK: WeatherLocation = {
+  seed: 20201027,
+  timezone: "Asia/Bangkok",
+  hemisphere: "north",
+  location: { latitude: 13.7563, longitude: 100.5018 },
+};
+
+// Every 3-hour block from December to February
+function countWinterWeather(location: WeatherLocation): Record<WeatherKind, number> {
+  const counts: Record<WeatherKind, number> = { clear: 0, rain: 0, snow: 0, fog: 0, wind: 0 };
+  const start = Date.UTC(2025, 11, 1);
+  for (let block = 0; block < 90 * 8; block++) {
+    counts[simulateWeather(new Date(start + block * 3 * 60 * 60 * 1000), location).kind]++;
+  }
+  return counts;
+}
+
+describe("simulateWeather", () => {
+  it("never snows in a tropical garden", () => {
+    const counts = countWinterWeather(BANGKOK);
+    expect(counts.snow).toBe(0);
+    expect(counts.fog + counts.wind).toBeGreaterThan(0);
+  });
+
+  it("snows in winter far from the equator", () => {
+    const oslo = { ...BANGKOK, timezone: "Europe/Oslo", location: { latitude: 59.91, longitude: 10.75 } };
+    expect(countWinterWeather(oslo).snow).toBeGreaterThan(100);
+  });
+
+  it("snows less in a mild climate", () => {
+    const snowAt = (latitude: number) =>
+      countWinterWeather({ ...BANGKOK, location: { latitude, longitude: 0 } }).snow;
+    expect(snowAt(38)).toBeGreaterThan(0);
+    expect(snowAt(38)).toBeLessThan(snowAt(50));
+  });
+
+  it("is the same for the same block", () => {
+    const at = new Date("2026-01-10T05:00:00Z");
+    expect(simulateWeather(at, BANGKOK)).toEqual(simulateWeather(new Date("2026-01-10T06:59:00Z"), BANGKOK));
+  });
+});
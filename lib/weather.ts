@@ -0,0 +1,93 @@
+import { daysBetween, getZonedHour, toZonedDateString } from "./dates";
+import { mulberry32 } from "./random";
+import { getSeason, Hemisphere, Season } from "./seasons";
+import { GeoLocation } from "./solar";
+
+export type WeatherKind = "clear" | "rain" | "snow" | "fog" | "wind";
+
+export interface WeatherState {
+  kind: WeatherKind;
+  intensity: number; // 0–1
+}
+
+/**
+ * Source of the garden's weather. Implementations may be local or fetch
+ * from a service, so the result is always a promise.
+ */
+export interface WeatherProvider {
+  getWeather(at: Date): Promise<WeatherState>;
+}
+
+export type WeatherConfig =
+  // Always the same weather, e.g. to preview an effect
+  | { mode: "fixed"; weather: WeatherState }
+  // Seeded weather that changes every `blockHours` (default 3)
+  | { mode: "simulated"; seed?: number; blockHours?: number };
+
+// The parts of a garden profile the built-in providers need
+export interface WeatherLocation {
+  seed: number;
+  timezone: string;
+  hemisphere: Hemisphere;
+  // Without one the climate is temperate, with snow every winter
+  location?: GeoLocation;
+}
+
+export const CLEAR_WEATHER: WeatherState = { kind: "clear", intensity: 0 };
+
+const WEATHER_KINDS: WeatherKind[] = ["clear", "rain", "snow", "fog", "wind"];
+
+export function isWeatherKind(value: string): value is WeatherKind {
+  return (WEATHER_KINDS as string[]).includes(value);
+}
+
+// Chance of each kind per season; whatever is left over is clear
+const WEATHER_CHANCES: Record<Season, Partial<Record<WeatherKind, number>>> = {
+  spring: { rain: 0.25, fog: 0.1, wind: 0.1 },
+  summer: { rain: 0.2, wind: 0.1 },
+  autumn: { rain: 0.2, fog: 0.15, wind: 0.2 },
+  winter: { snow: 0.3, fog: 0.15, wind: 0.1 },
+};
+
+// Snow needs a cold winter: none within 30° of the equator, the full chance from 45°
+const SNOW_FREE_LATITUDE = 30;
+const SNOWY_LATITUDE = 45;
+
+function getSnowFactor(location?: GeoLocation): number {
+  if (!location) return 1;
+  const latitude = Math.abs(location.latitude);
+  return Math.min(1, Math.max(0, (latitude - SNOW_FREE_LATITUDE) / (SNOWY_LATITUDE - SNOW_FREE_LATITUDE)));
+}
+
+export function createFixedWeatherProvider(weather: WeatherState): WeatherProvider {
+  return { getWeather: async () => weather };
+}
+
+/** Deterministic weather for an instant: same location, seed and time block, same weather. */
+export function simulateWeather(at: Date, location: WeatherLocation, blockHours = 3): WeatherState {
+  const date = toZonedDateString(at, location.timezone);
+  const blocksPerDay = Math.max(1, Math.floor(24 / blockHours));
+  const block = Math.floor(getZonedHour(at, location.timezone) / (24 / blocksPerDay));
+  const rng = mulberry32(location.seed + daysBetween("2000-01-01", date) * blocksPerDay + block);
+
+  const roll = rng();
+  const snowFactor = getSnowFactor(location.location);
+  let threshold = 0;
+  for (const [kind, chance] of Object.entries(WEATHER_CHANCES[getSeason(date, location.hemisphere)])) {
+    threshold += kind === "snow" ? chance * snowFactor : chance;
+    if (roll < threshold) return { kind: kind as WeatherKind, intensity: 0.3 + rng() * 0.7 };
+  }
+  return CLEAR_WEATHER;
+}
+
+export function createSimulatedWeatherProvider(location: WeatherLocation, blockHours = 3): WeatherProvider {
+  return { getWeather: async (at) => simulateWeather(at, location, blockHours) };
+}
+
+export function createWeatherProvider(config: WeatherConfig, location: WeatherLocation): WeatherProvider {
+  if (config.mode === "fixed") return createFixedWeatherProvider(config.weather);
+  return createSimulatedWeatherProvider(
+    { ...location, seed: config.seed ?? location.seed },
+    config.blockHours,
+  );
+}